@@ -4,6 +4,18 @@ import typescript from '@rollup/plugin-typescript';
 import peerDepsExternal from 'rollup-plugin-peer-deps-external';
 import dts from 'rollup-plugin-dts';
 
+// The testing entry imports the component and API through the main entry,
+// which stays external so both entries share one copy at runtime
+const mainEntryAsPackage = () => ({
+  name: 'main-entry-as-package',
+  resolveId(source, importer) {
+    if (source === '../index' && importer?.includes('/src/testing/')) {
+      return { id: '@buildcores/render-client', external: true };
+    }
+    return null;
+  },
+});
+
 export default [
   {
     input: 'src/index.ts',
@@ -38,4 +50,90 @@ export default [
     },
     plugins: [dts()],
   },
+  // Server-only entry (@buildcores/render-client/server) - no React or DOM
+  {
+    input: 'src/server.ts',
+    output: [
+      {
+        file: 'dist/server.js',
+        format: 'cjs',
+        sourcemap: true,
+      },
+      {
+        file: 'dist/server.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        exclude: ['**/*.test.ts', '**/*.test.tsx'],
+      }),
+    ],
+  },
+  {
+    input: 'src/server.ts',
+    output: {
+      file: 'dist/server.d.ts',
+      format: 'esm',
+    },
+    plugins: [dts()],
+  },
+  // Batch render CLI (buildcores-render) - Node only, no React or DOM
+  {
+    input: 'src/cli/index.ts',
+    output: {
+      file: 'dist/cli.js',
+      format: 'esm',
+      banner: '#!/usr/bin/env node',
+    },
+    plugins: [
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        exclude: ['**/*.test.ts', '**/*.test.tsx'],
+      }),
+    ],
+  },
+  // Test utilities (@buildcores/render-client/testing)
+  {
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing.js',
+        format: 'cjs',
+        sourcemap: true,
+        // require() the React DOM entry, so test runners without ESM support can load it
+        dynamicImportInCjs: false,
+      },
+      {
+        file: 'dist/testing.esm.js',
+        format: 'esm',
+        sourcemap: true,
+      },
+    ],
+    plugins: [
+      mainEntryAsPackage(),
+      peerDepsExternal(),
+      resolve(),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        exclude: ['**/*.test.ts', '**/*.test.tsx'],
+      }),
+    ],
+    external: ['react', 'react/jsx-runtime', 'react-dom', 'react-dom/client', 'framer-motion'],
+  },
+  {
+    input: 'src/testing/index.ts',
+    output: {
+      file: 'dist/testing.d.ts',
+      format: 'esm',
+    },
+    plugins: [mainEntryAsPackage(), dts()],
+  },
 ];
\ No newline at end of file
@@ -7,6 +7,9 @@ import { BuildRenderProps } from "./types";
 import { LoadingErrorOverlay } from "./components/LoadingErrorOverlay";
 import { InstructionTooltip } from "./components/InstructionTooltip";
 import { useZoomPan } from "./hooks/useZoomPan";
+import { useResolvedApiConfig } from "./RenderClientProvider";
+import { applyRenderDefaults } from "./client";
+import { spriteLayoutFor } from "./prerender";
 import type { WheelEvent as ReactWheelEvent } from "react";
 
 export const BuildRender: React.FC<BuildRenderProps> = ({
@@ -17,6 +20,7 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
   size,
   apiConfig,
   useSpriteRenderOptions,
+  initialRender,
   mouseSensitivity = 0.2,
   touchSensitivity = 0.2,
   showGrid,
@@ -35,30 +39,33 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
 }) => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
-  const [img, setImg] = useState<HTMLImageElement | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
   const [bouncingAllowed, setBouncingAllowed] = useState(false);
 
+  const { apiConfig: resolvedApiConfig, renderDefaults } = useResolvedApiConfig(
+    apiConfig,
+    "BuildRender"
+  );
+
   const displayW = width ?? size ?? 300;
   const displayH = height ?? size ?? 300;
 
   // Build the render input - prefer shareCode if provided (preserves interactive state like case fan slots)
   const renderInput: SpriteRenderInput = useMemo(() => {
-    const resolvedShowGrid = showGrid ?? parts?.showGrid;
-    const resolvedScene = scene ?? parts?.scene;
-    const resolvedShowBackground = showBackground ?? parts?.showBackground;
-    const resolvedWinterMode = winterMode ?? parts?.winterMode;
-    const resolvedSpringMode = springMode ?? parts?.springMode;
-    const resolvedCameraOffsetX = cameraOffsetX ?? parts?.cameraOffsetX;
-    const resolvedCameraZoom = cameraZoom ?? parts?.cameraZoom;
-    const resolvedGridSettings = gridSettings ?? parts?.gridSettings;
-    const resolvedFrameQuality = frameQuality ?? parts?.frameQuality;
+    const resolvedShowGrid = showGrid ?? parts?.showGrid ?? renderDefaults?.showGrid;
+    const resolvedScene = scene ?? parts?.scene ?? renderDefaults?.scene;
+    const resolvedShowBackground = showBackground ?? parts?.showBackground ?? renderDefaults?.showBackground;
+    const resolvedWinterMode = winterMode ?? parts?.winterMode ?? renderDefaults?.winterMode;
+    const resolvedSpringMode = springMode ?? parts?.springMode ?? renderDefaults?.springMode;
+    const resolvedCameraOffsetX = cameraOffsetX ?? parts?.cameraOffsetX ?? renderDefaults?.cameraOffsetX;
+    const resolvedCameraZoom = cameraZoom ?? parts?.cameraZoom ?? renderDefaults?.cameraZoom;
+    const resolvedGridSettings = gridSettings ?? parts?.gridSettings ?? renderDefaults?.gridSettings;
+    const resolvedFrameQuality = frameQuality ?? parts?.frameQuality ?? renderDefaults?.frameQuality;
 
     if (shareCode) {
       return { 
         type: 'shareCode', 
         shareCode, 
-        profile: parts?.profile,
+        profile: parts?.profile ?? renderDefaults?.profile,
         showGrid: resolvedShowGrid,
         scene: resolvedScene,
         showBackground: resolvedShowBackground,
@@ -72,7 +79,7 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
     }
     return { 
       type: 'parts', 
-      parts: parts!,
+      parts: applyRenderDefaults(renderDefaults, parts!),
       showGrid: resolvedShowGrid,
       scene: resolvedScene,
       showBackground: resolvedShowBackground,
@@ -83,13 +90,27 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
       gridSettings: resolvedGridSettings,
       frameQuality: resolvedFrameQuality,
     };
-  }, [shareCode, parts, showGrid, scene, showBackground, winterMode, springMode, cameraOffsetX, cameraZoom, gridSettings, frameQuality]);
+  }, [shareCode, parts, showGrid, scene, showBackground, winterMode, springMode, cameraOffsetX, cameraZoom, gridSettings, frameQuality, renderDefaults]);
+
+  const spriteRenderOptions = useMemo(
+    () => (initialRender ? { ...useSpriteRenderOptions, initialRender } : useSpriteRenderOptions),
+    [useSpriteRenderOptions, initialRender]
+  );
+
+  // Use custom hook for sprite rendering - its status drives the overlay, tooltip and animation
+  const { status, spriteSrc, spriteImage: img, renderError, spriteMetadata } =
+    useSpriteRender(renderInput, resolvedApiConfig, undefined, spriteRenderOptions);
+  const isReady = status === "ready";
 
-  // Use custom hook for sprite rendering
-  const { spriteSrc, isRenderingSprite, renderError, spriteMetadata } =
-    useSpriteRender(renderInput, apiConfig, undefined, useSpriteRenderOptions);
+  // Show the pre-resolved screenshot instead of the loading overlay until the sprite is drawn
+  const posterSrc =
+    !img && !renderError && initialRender?.screenshotUrl && spriteSrc === initialRender.url
+      ? initialRender.screenshotUrl
+      : null;
 
-  const total = spriteMetadata ? spriteMetadata.totalFrames : 72;
+  // Any grid works - frames are read left to right, top to bottom, and the
+  // last row may be partly empty
+  const { cols, rows, totalFrames: total } = spriteMetadata ?? spriteLayoutFor(frameQuality);
 
   // Animation hooks - only one will be active based on animationMode
   const { value: progressValue, isBouncing } =
@@ -100,13 +121,12 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
     spinDuration,
     total
   );
-  const cols = spriteMetadata ? spriteMetadata.cols : 12;
-  const rows = spriteMetadata ? spriteMetadata.rows : 6;
   const frameRef = useRef(0);
 
   const {
     scale,
     handleWheel: handleZoomWheel,
+    zoomByWheelDelta,
     handleTouchStart: handleZoomTouchStart,
     reset: resetZoom,
   } = useZoomPan({
@@ -120,51 +140,15 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
   const frameW = img ? img.width / cols : 0;
   const frameH = img ? img.height / rows : 0;
   
-  // Track expected rows to detect stale images
-  const expectedRowsRef = useRef(rows);
-  expectedRowsRef.current = rows;
-
-  // ---- Load sprite image ----
+  // ---- Start the bounce animation a moment after a new sprite is ready ----
   useEffect(() => {
-    if (!spriteSrc) {
-      setImg(null);
-      setIsLoading(true);
-      return;
-    }
-
-    // Clear current image immediately when source changes to prevent 
-    // using old image with new metadata
-    setImg(null);
-    setIsLoading(true);
     setBouncingAllowed(false);
-    
-    const i = new Image();
-    i.decoding = "async";
-    i.loading = "eager";
-    i.src = spriteSrc;
-    i.onload = () => {
-      // Only set the image if rows haven't changed since we started loading
-      // This prevents race conditions where metadata updates mid-load
-      setImg(i);
-      setIsLoading(false);
-      // Start bouncing animation after delay
-      setTimeout(() => {
-        setBouncingAllowed(true);
-      }, 2000);
-    };
-    i.onerror = () => {
-      setImg(null);
-      setIsLoading(false);
-    };
-    
-    // Cleanup: if this effect re-runs (due to spriteSrc or rows change), 
-    // the new effect will clear the image
-    return () => {
-      // Abort loading if component updates before load completes
-      i.onload = null;
-      i.onerror = null;
-    };
-  }, [spriteSrc, rows]);
+    if (!img) return;
+    const timer = setTimeout(() => {
+      setBouncingAllowed(true);
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [img]);
 
   // ---- Drawing function with optional cross-fade interpolation ----
   const draw = useCallback(
@@ -250,11 +234,6 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
       },
     });
 
-  const handleLoadStartInternal = useCallback(() => {
-    setIsLoading(true);
-    setBouncingAllowed(false);
-  }, []);
-
   // Auto-rotate when animation is allowed and user hasn't manually dragged
   useEffect(() => {
     if ((interactive && hasDragged.current) || !img) return;
@@ -284,29 +263,9 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
     const handleNativeWheel = (event: WheelEvent) => {
       event.preventDefault();
       event.stopPropagation();
-      
-      // Manually trigger zoom since we're preventing the React event
-      const deltaY =
-        event.deltaMode === 1
-          ? event.deltaY * 16
-          : event.deltaMode === 2
-          ? event.deltaY * (displayH ?? 300)
-          : event.deltaY;
-
-      const zoomFactor = Math.exp(-deltaY * 0.0015);
-      const nextScale = scale * zoomFactor;
-      
-      // We need to call the zoom handler directly
-      // Create a synthetic React event-like object
-      const syntheticEvent = {
-        preventDefault: () => {},
-        stopPropagation: () => {},
-        deltaY: event.deltaY,
-        deltaMode: event.deltaMode,
-        currentTarget: container,
-      } as any;
-      
-      handleZoomWheel(syntheticEvent);
+
+      // Zoom here since we're preventing the React event
+      zoomByWheelDelta(event.deltaY, event.deltaMode);
       hasDragged.current = true;
     };
 
@@ -316,14 +275,14 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
     return () => {
       container.removeEventListener('wheel', handleNativeWheel);
     };
-  }, [handleZoomWheel, scale, displayH, interactive]);
+  }, [zoomByWheelDelta, interactive, hasDragged]);
 
   // Initial draw once image is ready or zoom changes
   useEffect(() => {
-    if (img && !isLoading) {
+    if (img && isReady) {
       draw(frameRef.current);
     }
-  }, [img, isLoading, draw]);
+  }, [img, isReady, draw]);
 
   const handleCanvasTouchStart = useCallback(
     (event: React.TouchEvent<HTMLCanvasElement>) => {
@@ -356,6 +315,21 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
         overflow: "hidden",
       }}
     >
+      {posterSrc && (
+        <img
+          src={posterSrc}
+          alt=""
+          draggable={false}
+          style={{
+            width: displayW,
+            height: displayH,
+            objectFit: "contain",
+            display: "block",
+            userSelect: "none",
+          }}
+        />
+      )}
+
       {img && (
         <canvas
           ref={canvasRef}
@@ -379,7 +353,7 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
       )}
 
       <LoadingErrorOverlay
-        isVisible={isLoading || isRenderingSprite || !!renderError}
+        isVisible={!isReady && !posterSrc}
         renderError={renderError || undefined}
         size={Math.min(displayW, displayH)}
       />
@@ -388,9 +362,7 @@ export const BuildRender: React.FC<BuildRenderProps> = ({
         isVisible={
           interactive &&
           animationMode === 'bounce' &&
-          !isLoading &&
-          !isRenderingSprite &&
-          !renderError &&
+          isReady &&
           isBouncing &&
           !hasDragged.current
         }
@@ -1,41 +1,115 @@
-import { useRef, useState, useCallback, useEffect } from "react";
+import { useRef, useState, useCallback, useEffect, useMemo } from "react";
 import {
   calculateCircularTime,
   useVideoScrubbing,
 } from "./hooks/useVideoScrubbing";
 import { useBouncePatternProgress } from "./hooks/useProgressOneSecond";
-import { useBuildRender } from "./hooks/useBuildRender";
+import { useContinuousSpin } from "./hooks/useContinuousSpin";
+import { useBuildRender, BuildRenderInput } from "./hooks/useBuildRender";
+import { useZoomPan } from "./hooks/useZoomPan";
 import { BuildRenderVideoProps } from "./types";
 import { LoadingErrorOverlay } from "./components/LoadingErrorOverlay";
 import { InstructionTooltip } from "./components/InstructionTooltip";
+import { useResolvedApiConfig } from "./RenderClientProvider";
+import { applyRenderDefaults } from "./client";
+
+// Steps per rotation for spin360 - the video is seeked, so this only sets
+// how finely the playback position is tracked
+const SPIN_STEPS = 360;
 
 export const BuildRenderVideo: React.FC<BuildRenderVideoProps> = ({
   parts,
+  shareCode,
   width,
   height,
   size,
   apiConfig,
   useBuildRenderOptions,
+  initialRender,
   mouseSensitivity = 0.01,
   touchSensitivity = 0.01,
+  showGrid,
+  scene,
+  showBackground,
+  winterMode,
+  springMode,
+  cameraOffsetX,
+  cameraZoom,
+  gridSettings,
+  animationMode = 'bounce',
+  spinDuration = 10000,
+  interactive = true,
+  zoom = 1,
 }) => {
   const videoRef = useRef<HTMLVideoElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [bouncingAllowed, setBouncingAllowed] = useState(false);
 
+  const { apiConfig: resolvedApiConfig, renderDefaults } = useResolvedApiConfig(
+    apiConfig,
+    "BuildRenderVideo"
+  );
+
   const displayW = width ?? size ?? 300;
   const displayH = height ?? size ?? 300;
 
+  // Build the render input - prefer shareCode if provided (preserves interactive state like case fan slots)
+  const renderInput: BuildRenderInput = useMemo(() => {
+    const renderOptions = {
+      showGrid: showGrid ?? parts?.showGrid ?? renderDefaults?.showGrid,
+      scene: scene ?? parts?.scene ?? renderDefaults?.scene,
+      showBackground: showBackground ?? parts?.showBackground ?? renderDefaults?.showBackground,
+      winterMode: winterMode ?? parts?.winterMode ?? renderDefaults?.winterMode,
+      springMode: springMode ?? parts?.springMode ?? renderDefaults?.springMode,
+      cameraOffsetX: cameraOffsetX ?? parts?.cameraOffsetX ?? renderDefaults?.cameraOffsetX,
+      cameraZoom: cameraZoom ?? parts?.cameraZoom ?? renderDefaults?.cameraZoom,
+      gridSettings: gridSettings ?? parts?.gridSettings ?? renderDefaults?.gridSettings,
+    };
+
+    if (shareCode) {
+      return {
+        type: 'shareCode',
+        shareCode,
+        profile: parts?.profile ?? renderDefaults?.profile,
+        ...renderOptions,
+      };
+    }
+    return {
+      type: 'parts',
+      parts: applyRenderDefaults(renderDefaults, parts!),
+      ...renderOptions,
+    };
+  }, [shareCode, parts, showGrid, scene, showBackground, winterMode, springMode, cameraOffsetX, cameraZoom, gridSettings, renderDefaults]);
+
+  const buildRenderOptions = useMemo(
+    () => (initialRender ? { ...useBuildRenderOptions, initialRender } : useBuildRenderOptions),
+    [useBuildRenderOptions, initialRender]
+  );
+
   // Use custom hook for build rendering
   const { videoSrc, isRenderingBuild, renderError } = useBuildRender(
-    parts,
-    apiConfig,
+    renderInput,
+    resolvedApiConfig,
     undefined,
-    useBuildRenderOptions
+    buildRenderOptions
   );
 
+  // The video shows the pre-resolved screenshot as its poster until it can play
+  const posterSrc =
+    !renderError && initialRender?.screenshotUrl && videoSrc === initialRender.url
+      ? initialRender.screenshotUrl
+      : undefined;
+
+  // Animation hooks - only one will be active based on animationMode
   const { value: progressValue, isBouncing } =
-    useBouncePatternProgress(bouncingAllowed);
+    useBouncePatternProgress(bouncingAllowed && animationMode === 'bounce');
+
+  const spinResult = useContinuousSpin(
+    bouncingAllowed && animationMode === 'spin360',
+    spinDuration,
+    SPIN_STEPS
+  );
 
   const { isDragging, handleMouseDown, handleTouchStart, hasDragged } =
     useVideoScrubbing(videoRef, {
@@ -43,6 +117,17 @@ export const BuildRenderVideo: React.FC<BuildRenderVideoProps> = ({
       touchSensitivity,
     });
 
+  const {
+    scale,
+    zoomByWheelDelta,
+    handleTouchStart: handleZoomTouchStart,
+    reset: resetZoom,
+  } = useZoomPan({
+    displayWidth: displayW,
+    displayHeight: displayH,
+    initialScale: zoom,
+  });
+
   const handleLoadStartInternal = useCallback(() => {
     setIsLoading(true);
     setBouncingAllowed(false);
@@ -56,21 +141,63 @@ export const BuildRenderVideo: React.FC<BuildRenderVideoProps> = ({
     }, 2000);
   }, []);
 
+  // Auto-rotate when animation is allowed and user hasn't manually dragged
   useEffect(() => {
-    if (hasDragged.current || !videoRef.current) return;
+    if ((interactive && hasDragged.current) || !videoRef.current) return;
 
     const duration = videoRef.current.duration;
     if (!isFinite(duration)) return;
 
-    const time = calculateCircularTime(0, progressValue, 0.5, duration);
+    const time =
+      animationMode === 'spin360'
+        ? ((spinResult.frame + spinResult.blend) / SPIN_STEPS) * duration
+        : calculateCircularTime(0, progressValue, 0.5, duration);
 
     if (isFinite(time)) {
       videoRef.current.currentTime = time;
     }
-  }, [progressValue, hasDragged]);
+  }, [progressValue, spinResult, hasDragged, animationMode, interactive]);
+
+  // Reset zoom when the video changes or container size updates
+  useEffect(() => {
+    resetZoom();
+  }, [videoSrc, displayW, displayH, resetZoom]);
+
+  // Native wheel listener so zooming does not scroll the page (only when interactive)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !interactive) return;
+
+    const handleNativeWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      zoomByWheelDelta(event.deltaY, event.deltaMode);
+      hasDragged.current = true;
+    };
+
+    container.addEventListener('wheel', handleNativeWheel, { passive: false });
+    return () => {
+      container.removeEventListener('wheel', handleNativeWheel);
+    };
+  }, [zoomByWheelDelta, interactive, hasDragged]);
+
+  const handleVideoTouchStart = useCallback(
+    (event: React.TouchEvent<HTMLVideoElement>) => {
+      if (handleZoomTouchStart(event)) {
+        hasDragged.current = true;
+        return;
+      }
+
+      handleTouchStart(event);
+    },
+    [handleZoomTouchStart, handleTouchStart, hasDragged]
+  );
 
   return (
-    <div style={{ position: "relative", width: displayW, height: displayH }}>
+    <div
+      ref={containerRef}
+      style={{ position: "relative", width: displayW, height: displayH, overflow: "hidden" }}
+    >
       {videoSrc && (
         <video
           key={videoSrc} // Force React to recreate video element when src changes
@@ -80,14 +207,15 @@ export const BuildRenderVideo: React.FC<BuildRenderVideoProps> = ({
           height={displayH}
           autoPlay={true}
           preload="metadata"
+          poster={posterSrc}
           muted
           playsInline
           controls={false}
           disablePictureInPicture
           controlsList="nodownload nofullscreen noremoteplayback"
           {...({ "x-webkit-airplay": "deny" } as any)}
-          onMouseDown={handleMouseDown}
-          onTouchStart={handleTouchStart}
+          onMouseDown={interactive ? handleMouseDown : undefined}
+          onTouchStart={interactive ? handleVideoTouchStart : undefined}
           onLoadStart={handleLoadStartInternal}
           onCanPlay={handleCanPlayInternal}
           onLoadedData={() => {
@@ -97,9 +225,11 @@ export const BuildRenderVideo: React.FC<BuildRenderVideoProps> = ({
           }}
           style={
             {
-              cursor: isDragging ? "grabbing" : "grab",
-              touchAction: "none", // Prevents default touch behaviors like scrolling
+              cursor: interactive ? (isDragging ? "grabbing" : "grab") : "pointer",
+              touchAction: interactive ? "none" : "auto", // Prevents default touch behaviors like scrolling
               display: "block",
+              transform: scale !== 1 ? `scale(${scale})` : undefined,
+              pointerEvents: interactive ? "auto" : "none", // Allow click-through when not interactive
               // Completely hide video controls on all browsers including mobile
               WebkitMediaControls: "none",
               MozMediaControls: "none",
@@ -118,13 +248,15 @@ export const BuildRenderVideo: React.FC<BuildRenderVideoProps> = ({
       )}
 
       <LoadingErrorOverlay
-        isVisible={isLoading || isRenderingBuild || !!renderError}
+        isVisible={(isLoading || isRenderingBuild || !!renderError) && !posterSrc}
         renderError={renderError || undefined}
         size={Math.min(displayW, displayH)}
       />
 
       <InstructionTooltip
         isVisible={
+          interactive &&
+          animationMode === 'bounce' &&
           !isLoading &&
           !isRenderingBuild &&
           !renderError &&
@@ -0,0 +1,46 @@
+import { createContext, useContext } from "react";
+import type { ReactNode } from "react";
+import { ApiConfig } from "./types";
+import { RenderClient } from "./client";
+
+const RenderClientContext = createContext<RenderClient | null>(null);
+
+export interface RenderClientProviderProps {
+  client: RenderClient;
+  children?: ReactNode;
+}
+
+/**
+ * Makes a render client available to `BuildRender` and `BuildRenderVideo`,
+ * so they need no `apiConfig` prop
+ *
+ * @example
+ * ```tsx
+ * const client = createRenderClient({ environment: 'prod', authToken: 'your-api-key' });
+ *
+ * <RenderClientProvider client={client}>
+ *   <BuildRender shareCode="abc123xyz" size={300} />
+ * </RenderClientProvider>
+ * ```
+ */
+export const RenderClientProvider = ({ client, children }: RenderClientProviderProps) => (
+  <RenderClientContext.Provider value={client}>{children}</RenderClientContext.Provider>
+);
+
+/**
+ * The render client from the nearest `RenderClientProvider`, or null outside one
+ */
+export const useRenderClient = (): RenderClient | null => useContext(RenderClientContext);
+
+/**
+ * Resolve the API config for a component: its own prop wins over the provider's client
+ * @internal
+ */
+export const useResolvedApiConfig = (apiConfig: ApiConfig | undefined, componentName: string) => {
+  const client = useRenderClient();
+  const resolved = apiConfig ?? client?.config;
+  if (!resolved) {
+    throw new Error(`${componentName} requires an apiConfig prop or a surrounding RenderClientProvider`);
+  }
+  return { apiConfig: resolved, renderDefaults: client?.renderDefaults };
+};
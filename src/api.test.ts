@@ -0,0 +1,398 @@
+import { describe, expect, it } from "vitest";
+import {
+  AVAILABLE_PARTS_MAX_PAGE_SIZE,
+  getBuildByShareCode,
+  iterateAvailableParts,
+  renderBuild,
+  renderByShareCode,
+} from "./api";
+import { createRenderClient } from "./client";
+import {
+  RenderAuthError,
+  RenderBadRequestError,
+  RenderJobFailedError,
+  RenderNotFoundError,
+  RenderScopeError,
+  RenderServerError,
+  RenderTimeoutError,
+  isAbortError,
+} from "./errors";
+import { createAdaptivePollingStrategy } from "./polling";
+import { createRenderCache } from "./renderCache";
+import { createMockRenderApi, MockRenderApiOptions } from "./testing";
+import { ApiConfig, PartCategory, RenderBuildRequest, RenderJobStatusEvent } from "./types";
+
+const FAST_RETRY = { initialDelayMs: 1, jitter: false };
+
+const setup = (options?: MockRenderApiOptions) => {
+  const mock = createMockRenderApi(options);
+  const config: ApiConfig = {
+    baseUrl: "https://mock.local",
+    authToken: "test-token",
+    fetch: mock.fetch,
+    retry: FAST_RETRY,
+    jobCreationRetry: FAST_RETRY,
+  };
+  const request: RenderBuildRequest = {
+    parts: { [PartCategory.CPU]: [mock.parts[0].id] },
+  };
+  return { mock, config, request };
+};
+
+const pathsOf = (mock: ReturnType<typeof createMockRenderApi>) =>
+  mock.requests.map(({ method, path }) => `${method} ${path}`);
+
+describe("renderBuild", () => {
+  it("submits a job and polls it to completion", async () => {
+    const { mock, config, request } = setup();
+    const statuses: RenderJobStatusEvent["status"][] = [];
+
+    const result = await renderBuild(request, config, {
+      pollIntervalMs: 1,
+      onStatus: (event) => statuses.push(event.status),
+    });
+
+    expect(result.jobId).toBe("mock-job-1");
+    expect(result.videoUrl).toMatch(/^data:video\/mp4/);
+    expect(statuses).toContain("completed");
+    expect(pathsOf(mock)[0]).toBe("POST /render-build");
+    expect(mock.requests[0].headers.get("Authorization")).toBe("Bearer test-token");
+  });
+
+  it("returns a job completed on creation without polling", async () => {
+    const { mock, config, request } = setup({ lifecycle: [{ status: "completed" }] });
+
+    const result = await renderBuild({ ...request, format: "sprite" }, config);
+
+    expect(result.videoUrl).toMatch(/^data:image\/png/);
+    expect(result.spriteLayout).toEqual({ cols: 12, rows: 6, totalFrames: 72 });
+    expect(pathsOf(mock)).toEqual(["POST /render-build"]);
+  });
+
+  it("waits for the server's Retry-After hint between polls", async () => {
+    const { mock, config, request } = setup({ lifecycle: [{ status: "queued", polls: 2 }, { status: "completed" }] });
+    const handle = mock.fetch;
+    const polls: number[] = [];
+    const fetchWithHint: typeof fetch = async (input, init) => {
+      const response = await handle(input, init);
+      if (init?.method !== "GET") return response;
+      polls.push(Date.now());
+      const headers = new Headers(response.headers);
+      headers.set("Retry-After", "1");
+      return new Response(response.body, { status: response.status, headers });
+    };
+
+    await renderBuild(request, { ...config, fetch: fetchWithHint }, {
+      pollingStrategy: createAdaptivePollingStrategy({ initialDelayMs: 10, maxDelayMs: 200 }),
+    });
+
+    // Retry-After: 1 (second) is capped at maxDelayMs
+    expect(polls).toHaveLength(2);
+    expect(polls[1] - polls[0]).toBeGreaterThanOrEqual(190);
+    expect(polls[1] - polls[0]).toBeLessThan(900);
+  });
+
+  it("reports the sprite layout of sprite jobs", async () => {
+    const { config, request } = setup();
+
+    const result = await renderBuild({ ...request, format: "sprite", frameQuality: "high" }, config, {
+      pollIntervalMs: 1,
+    });
+
+    expect(result.spriteLayout).toEqual({ cols: 12, rows: 12, totalFrames: 144 });
+  });
+
+  it("throws RenderBadRequestError for a rejected request", async () => {
+    const { mock, config, request } = setup();
+    mock.injectError({ path: "/render-build", status: 400 });
+
+    await expect(renderBuild(request, config, { pollIntervalMs: 1 })).rejects.toBeInstanceOf(
+      RenderBadRequestError
+    );
+  });
+
+  it("throws RenderAuthError without a valid token", async () => {
+    const { config, request } = setup({ requireAuth: true });
+
+    const error = await renderBuild(request, { ...config, authToken: undefined }, {
+      pollIntervalMs: 1,
+    }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RenderAuthError);
+    expect(error.status).toBe(401);
+  });
+
+  it("throws RenderScopeError for a forbidden request", async () => {
+    const { mock, config, request } = setup();
+    mock.injectError({ path: "/render-build", status: 403 });
+
+    await expect(renderBuild(request, config, { pollIntervalMs: 1 })).rejects.toBeInstanceOf(
+      RenderScopeError
+    );
+  });
+
+  it("throws RenderServerError once retries are used up", async () => {
+    const { mock, config, request } = setup();
+    mock.injectError({ path: "/render-build/:jobId", status: 500, times: Infinity });
+
+    await expect(
+      renderBuild(request, { ...config, retry: { ...FAST_RETRY, maxAttempts: 2 } }, { pollIntervalMs: 1 })
+    ).rejects.toBeInstanceOf(RenderServerError);
+    expect(pathsOf(mock).filter((path) => path === "GET /render-build/mock-job-1")).toHaveLength(2);
+  });
+
+  it("throws RenderJobFailedError when the job fails", async () => {
+    const { config, request } = setup({
+      lifecycle: [{ status: "queued" }, { status: "error", error: "GPU exploded" }],
+    });
+
+    const error = await renderBuild(request, config, { pollIntervalMs: 1 }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RenderJobFailedError);
+    expect(error.message).toContain("GPU exploded");
+  });
+
+  it("retries job creation after a 429 and status polls after a 503", async () => {
+    const { mock, config, request } = setup();
+    mock.injectError({ path: "/render-build", status: 429, headers: { "Retry-After": "0" } });
+    mock.injectError({ path: "/render-build/:jobId", status: 503, times: 2 });
+
+    const result = await renderBuild(request, config, { pollIntervalMs: 1 });
+
+    expect(result.videoUrl).toMatch(/^data:video\/mp4/);
+    const paths = pathsOf(mock);
+    expect(paths.filter((path) => path === "POST /render-build")).toHaveLength(2);
+    expect(mock.jobs.size).toBe(1);
+  });
+
+  it("rejects with an AbortError when the signal is aborted while polling", async () => {
+    const { config, request } = setup({ lifecycle: [{ status: "processing", polls: Infinity }, { status: "completed" }] });
+    const controller = new AbortController();
+
+    const pending = renderBuild(request, config, {
+      pollIntervalMs: 5,
+      signal: controller.signal,
+      onStatus: ({ status }) => {
+        if (status === "processing") controller.abort();
+      },
+    });
+
+    const error = await pending.catch((caught) => caught);
+    expect(isAbortError(error)).toBe(true);
+    expect(error).not.toBeInstanceOf(RenderTimeoutError);
+  });
+
+  it("throws RenderTimeoutError when the job outlives timeoutMs", async () => {
+    const { config, request } = setup({ lifecycle: [{ status: "processing", polls: Infinity }, { status: "completed" }] });
+
+    const error = await renderBuild(request, config, { pollIntervalMs: 5, timeoutMs: 50 }).catch(
+      (caught) => caught
+    );
+
+    expect(error).toBeInstanceOf(RenderTimeoutError);
+    expect(isAbortError(error)).toBe(false);
+  });
+
+  it("returns the whole result from the cache without submitting again", async () => {
+    const { mock, config, request } = setup();
+    const cache = createRenderCache();
+    const spriteRequest: RenderBuildRequest = { ...request, format: "sprite" };
+
+    const first = await renderBuild(spriteRequest, config, { pollIntervalMs: 1, cache });
+    const submitted = mock.requests.length;
+    const second = await renderBuild(spriteRequest, config, { pollIntervalMs: 1, cache });
+
+    expect(second).toEqual(first);
+    expect(second.spriteLayout).toEqual({ cols: 12, rows: 6, totalFrames: 72 });
+    expect(mock.requests).toHaveLength(submitted);
+  });
+});
+
+describe("renderByShareCode", () => {
+  it("renders a saved build", async () => {
+    const { mock, config } = setup();
+
+    const result = await renderByShareCode("mock-build", config, { format: "sprite", pollIntervalMs: 1 });
+
+    expect(result.videoUrl).toMatch(/^data:image\/png/);
+    expect(result.spriteLayout).toEqual({ cols: 12, rows: 6, totalFrames: 72 });
+    expect(mock.jobs.get(result.jobId!)?.shareCode).toBe("mock-build");
+  });
+
+  it("throws RenderNotFoundError for an unknown share code", async () => {
+    const { config } = setup();
+
+    const error = await renderByShareCode("no-such-build", config, { pollIntervalMs: 1 }).catch(
+      (caught) => caught
+    );
+
+    expect(error).toBeInstanceOf(RenderNotFoundError);
+    expect(error.status).toBe(404);
+  });
+
+  it("retries a 503 on job creation", async () => {
+    const { mock, config } = setup();
+    mock.injectError({ path: "/render-by-share-code", status: 503 });
+
+    const result = await renderByShareCode("mock-build", config, { pollIntervalMs: 1 });
+
+    expect(result.jobId).toBe("mock-job-1");
+    expect(pathsOf(mock).filter((path) => path === "POST /render-by-share-code")).toHaveLength(2);
+  });
+
+  it("rejects with an AbortError when aborted before the job completes", async () => {
+    const { config } = setup({ delayMs: 20 });
+    const controller = new AbortController();
+
+    const pending = renderByShareCode("mock-build", config, { pollIntervalMs: 1, signal: controller.signal });
+    controller.abort();
+
+    expect(isAbortError(await pending.catch((caught) => caught))).toBe(true);
+  });
+
+  it("throws RenderTimeoutError when the job outlives timeoutMs", async () => {
+    const { config } = setup({ lifecycle: [{ status: "queued", durationMs: 10_000 }, { status: "completed" }] });
+
+    await expect(
+      renderByShareCode("mock-build", config, { pollIntervalMs: 5, timeoutMs: 50 })
+    ).rejects.toBeInstanceOf(RenderTimeoutError);
+  });
+});
+
+describe("iterateAvailableParts", () => {
+  it("clamps the page size to the API maximum", async () => {
+    const { mock, config } = setup();
+    const ids: string[] = [];
+
+    for await (const part of iterateAvailableParts(PartCategory.CPU, config, { pageSize: 500 })) {
+      ids.push(part.id);
+    }
+
+    expect(ids).toHaveLength(mock.parts.filter((part) => part.category === PartCategory.CPU).length);
+    expect(mock.requests.map(({ query }) => query.get("limit"))).toEqual([
+      String(AVAILABLE_PARTS_MAX_PAGE_SIZE),
+    ]);
+  });
+});
+
+describe("session auth", () => {
+  // Supplier that hands out numbered tokens living `ttlMs`
+  const createSupplier = (ttlMs = 60_000) => {
+    const issued: string[] = [];
+    const supplier = async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      issued.push(`session-${issued.length + 1}`);
+      return { token: issued[issued.length - 1], expiresAt: new Date(Date.now() + ttlMs).toISOString() };
+    };
+    return { supplier, issued };
+  };
+
+  it("fetches one token for concurrent requests", async () => {
+    const { mock, config } = setup({ requireAuth: true });
+    const { supplier, issued } = createSupplier();
+    const sessionConfig: ApiConfig = { ...config, authToken: undefined, getRenderSessionToken: supplier };
+
+    await Promise.all([
+      getBuildByShareCode("mock-build", sessionConfig),
+      getBuildByShareCode("mock-build", sessionConfig),
+      getBuildByShareCode("mock-build", sessionConfig),
+    ]);
+
+    expect(issued).toEqual(["session-1"]);
+    expect(mock.requests.map(({ headers }) => headers.get("Authorization"))).toEqual([
+      "Bearer session-1",
+      "Bearer session-1",
+      "Bearer session-1",
+    ]);
+  });
+
+  it("refreshes the token once after a 401 and retries", async () => {
+    const { mock, config } = setup();
+    const { supplier, issued } = createSupplier();
+    const refreshed: string[] = [];
+    mock.injectError({ path: "/build/:shareCode", status: 401 });
+
+    const build = await getBuildByShareCode("mock-build", {
+      ...config,
+      getRenderSessionToken: supplier,
+      onTokenRefreshed: ({ token }) => refreshed.push(token),
+    });
+
+    expect(build.shareCode).toBe("mock-build");
+    expect(issued).toEqual(["session-1", "session-2"]);
+    expect(refreshed).toEqual(issued);
+    expect(mock.requests[1].headers.get("Authorization")).toBe("Bearer session-2");
+  });
+
+  it("refreshes a used token in the background before it expires", async () => {
+    const { mock, config } = setup();
+    const { supplier, issued } = createSupplier(200);
+    const sessionConfig: ApiConfig = {
+      ...config,
+      getRenderSessionToken: supplier,
+      sessionTokenRefreshWindowMs: 150,
+      proactiveSessionRefresh: true,
+    };
+
+    await getBuildByShareCode("mock-build", sessionConfig);
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(issued).toEqual(["session-1", "session-2"]);
+
+    // session-2 was never used, so it is left to expire
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    expect(issued).toEqual(["session-1", "session-2"]);
+
+    await getBuildByShareCode("mock-build", sessionConfig);
+    expect(mock.requests[1].headers.get("Authorization")).toBe("Bearer session-3");
+  });
+});
+
+describe("network failure retries", () => {
+  it("retries a fetch that rejects with a TypeError", async () => {
+    const { mock, config } = setup();
+    let calls = 0;
+    const flakyFetch: typeof fetch = async (input, init) => {
+      if (++calls === 1) throw new TypeError("fetch failed");
+      return mock.fetch(input, init);
+    };
+
+    const build = await getBuildByShareCode("mock-build", { ...config, fetch: flakyFetch });
+
+    expect(build.shareCode).toBe("mock-build");
+    expect(calls).toBe(2);
+  });
+
+  it("does not retry a TypeError thrown while calling fetch", async () => {
+    const { config } = setup();
+    let calls = 0;
+    const brokenFetch = ((() => {
+      calls++;
+      throw new TypeError("fetchImpl is not a function");
+    }) as unknown) as typeof fetch;
+
+    await expect(getBuildByShareCode("mock-build", { ...config, fetch: brokenFetch })).rejects.toThrow(
+      TypeError
+    );
+    expect(calls).toBe(1);
+  });
+
+  it("does not retry a TypeError thrown by an interceptor", async () => {
+    const { mock, config } = setup();
+    let calls = 0;
+    const client = createRenderClient({
+      ...config,
+      interceptors: {
+        request: [
+          () => {
+            calls++;
+            throw new TypeError("Cannot read properties of undefined");
+          },
+        ],
+      },
+    });
+
+    await expect(client.getBuildByShareCode("mock-build")).rejects.toThrow(TypeError);
+    expect(calls).toBe(1);
+    expect(mock.requests).toHaveLength(0);
+  });
+});
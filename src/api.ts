@@ -4,12 +4,54 @@ import {
   ApiConfig, 
   PartCategory, 
   GetAvailablePartsOptions,
+  IterateAvailablePartsOptions,
+  GetAllAvailablePartsOptions,
+  AllAvailablePartsResponse,
+  PartDetails,
+  PartDetailsWithCategory,
+  ApiRequestOptions,
   BuildResponse,
   PartsResponse,
+  PartsByIdsResponse,
   RenderByShareCodeOptions,
+  RenderByShareCodeJobOptions,
   RenderByShareCodeJobResponse,
   RenderByShareCodeResponse,
+  RenderBuildAsyncResponse,
+  RenderJobCreateResponse,
+  RenderJobStatusResponse,
+  RenderJobStatus,
+  RenderJobPollingOptions,
+  PollingStrategy,
+  SpriteLayout,
 } from "./types";
+import {
+  RenderApiError,
+  RenderAuthError,
+  RenderNotFoundError,
+  RenderJobFailedError,
+  RenderTimeoutError,
+  createResponseError,
+} from "./errors";
+import {
+  DEFAULT_JOB_CREATION_RETRY_POLICY,
+  DEFAULT_RETRY_POLICY,
+  NO_RETRY_POLICY,
+  ResolvedRetryPolicy,
+  computeRetryDelayMs,
+  parseRetryAfterMs,
+  resolveRetryPolicy,
+} from "./retry";
+import { DEFAULT_POLLING_STRATEGY, createFixedPollingStrategy } from "./polling";
+import { RenderKeyInput, createRenderKey } from "./renderKey";
+import { buildRenderRequestBody } from "./requestSerializer";
+import {
+  clearPersistedJob,
+  loadPersistedJob,
+  resolveJobPersistence,
+  savePersistedJob,
+} from "./jobPersistence";
+import { parseSpriteLayout, readSpriteLayoutHeaders } from "./spriteLayout";
 
 // API Configuration
 const API_BASE_URL = "https://www.renderapi.buildcores.com";
@@ -22,6 +64,7 @@ export const API_ENDPOINTS = {
   BUILD: "/build",
   PARTS: "/parts",
   RENDER_BY_SHARE_CODE: "/render-by-share-code",
+  RENDER_SESSION: "/auth/render-session",
 } as const;
 
 // API Response Types
@@ -40,27 +83,8 @@ export interface RenderBuildResponse {
   };
 }
 
-// Async render job types (new endpoints)
-export interface RenderJobCreateResponse {
-  job_id: string;
-  status: "queued" | "processing" | "completed" | "error";
-}
-
-export interface RenderJobStatusResponse {
-  job_id: string;
-  status: "queued" | "processing" | "completed" | "error";
-  url?: string | null;
-  video_url?: string | null;
-  sprite_url?: string | null;
-  screenshot_url?: string | null;
-  error?: string | null;
-  end_time?: string | null;
-}
-
-export interface RenderBuildAsyncResponse {
-  /** Final URL to the rendered MP4 (or sprite) asset */
-  videoUrl: string;
-}
+// Async render job types (new endpoints) - declared in types.ts, re-exported here
+export type { RenderJobCreateResponse, RenderJobStatusResponse, RenderBuildAsyncResponse };
 
 export interface RenderSpriteResponse {
   /**
@@ -68,7 +92,8 @@ export interface RenderSpriteResponse {
    */
   sprite: Blob;
   /**
-   * Sprite sheet metadata
+   * Sprite sheet metadata. The grid is only set when the response carried
+   * `X-Sprite-*` layout headers.
    */
   metadata?: {
     cols?: number;
@@ -79,34 +104,113 @@ export interface RenderSpriteResponse {
   };
 }
 
-// API Functions (definitions only - not implemented yet)
+/**
+ * The Render API bound to one configuration - implemented by `createRenderClient`.
+ * Each method matches the standalone function of the same name, without the
+ * `config` argument.
+ */
 export interface RenderAPIService {
   /**
-   * Submit a render build request
-   * @param parts - The parts configuration for the build
-   * @param config - API configuration (environment, auth token) - required
+   * Submit a render build request to the experimental (pregenerated) endpoint
    * @returns Promise with the rendered MP4 video
    */
   renderBuildExperimental(
-    parts: RenderBuildRequest,
-    config: ApiConfig
+    request: RenderBuildRequest,
+    options?: ApiRequestOptions
   ): Promise<RenderBuildResponse>;
 
+  /**
+   * Fetch a pregenerated sprite sheet from the experimental endpoint
+   */
+  renderSpriteExperimental(
+    request: RenderBuildRequest,
+    options?: ApiRequestOptions
+  ): Promise<RenderSpriteResponse>;
+
+  /**
+   * Read a sprite sheet's grid from its sidecar manifest
+   */
+  getSpriteLayoutManifest(url: string, options?: ApiRequestOptions): Promise<SpriteLayout>;
+
+  /**
+   * Create an async render job for a parts list
+   */
+  createRenderBuildJob(
+    request: RenderBuildRequest,
+    options?: ApiRequestOptions
+  ): Promise<RenderJobCreateResponse>;
+
+  /**
+   * Get the status of a render job
+   */
+  getRenderBuildStatus(jobId: string, options?: ApiRequestOptions): Promise<RenderJobStatusResponse>;
+
+  /**
+   * Create a render job for a parts list and poll it to completion
+   */
+  renderBuild(
+    request: RenderBuildRequest,
+    options?: RenderJobPollingOptions
+  ): Promise<RenderBuildAsyncResponse>;
+
   /**
    * Get available parts for building
-   * @param config - API configuration (environment, auth token) - required
    * @returns Promise with available parts by category
    */
   getAvailableParts(
     category: PartCategory,
-    config: ApiConfig,
     options?: GetAvailablePartsOptions
   ): Promise<AvailablePartsResponse>;
+
+  /**
+   * Iterate over every available part of a category, prefetching the next page
+   */
+  iterateAvailableParts(
+    category: PartCategory,
+    options?: IterateAvailablePartsOptions
+  ): AsyncGenerator<PartDetails, void, undefined>;
+
+  /**
+   * Fetch every available part of a category, up to `maxParts`
+   */
+  getAllAvailableParts(
+    category: PartCategory,
+    options?: GetAllAvailablePartsOptions
+  ): Promise<AllAvailablePartsResponse>;
+
+  /**
+   * Get a build and its parts by share code
+   */
+  getBuildByShareCode(shareCode: string, options?: ApiRequestOptions): Promise<BuildResponse>;
+
+  /**
+   * Get part details by BuildCores IDs
+   */
+  getPartsByIds(partIds: string[], options?: ApiRequestOptions): Promise<PartsByIdsResponse>;
+
+  /**
+   * Create a render job for a build by its share code
+   */
+  createRenderByShareCodeJob(
+    shareCode: string,
+    options?: RenderByShareCodeJobOptions
+  ): Promise<RenderByShareCodeJobResponse>;
+
+  /**
+   * Render a build by its share code, polling until completion
+   */
+  renderByShareCode(
+    shareCode: string,
+    options?: RenderByShareCodeOptions
+  ): Promise<RenderByShareCodeResponse>;
 }
 
 // API URL helpers
+const resolveBaseUrl = (config: ApiConfig): string =>
+  (config.baseUrl ?? API_BASE_URL).replace(/\/+$/, "");
+
 export const buildApiUrl = (endpoint: string, config: ApiConfig): string => {
-  const baseUrl = `${API_BASE_URL}${endpoint}`;
+  const baseUrl = `${resolveBaseUrl(config)}${endpoint}`;
   if (config.environment) {
     const separator = endpoint.includes("?") ? "&" : "?";
     return `${baseUrl}${separator}environment=${config.environment}`;
@@ -118,10 +222,16 @@ type SessionTokenSupplier = NonNullable<ApiConfig["getRenderSessionToken"]>;
 type SessionTokenCacheEntry = {
   token: string;
   expiresAtMs: number;
+  // Whether a request used the token since it was fetched - proactive
+  // refresh only keeps tokens alive for clients that are still active
+  usedSinceRefresh: boolean;
+  refreshTimer?: ReturnType<typeof setTimeout>;
 };
 
-const SESSION_TOKEN_REFRESH_WINDOW_MS = 15_000;
+const DEFAULT_SESSION_TOKEN_REFRESH_WINDOW_MS = 15_000;
 const sessionTokenCache = new WeakMap<SessionTokenSupplier, SessionTokenCacheEntry>();
+// In-flight supplier calls, so concurrent requests share one token refresh
+const sessionTokenRefreshes = new WeakMap<SessionTokenSupplier, Promise<SessionTokenCacheEntry>>();
 
 const resolveAuthMode = (config: ApiConfig): "legacy" | "session" =>
   config.authMode ?? (config.getRenderSessionToken ? "session" : "legacy");
@@ -131,43 +241,106 @@ const isSessionAuthMode = (config: ApiConfig): boolean => resolveAuthMode(config
 const parseExpiresAtMs = (expiresAt: string): number => {
   const parsed = Date.parse(expiresAt);
   if (!Number.isFinite(parsed)) {
-    throw new Error("Invalid session token expiry (expiresAt)");
+    throw new RenderAuthError("Invalid session token expiry (expiresAt)");
   }
   return parsed;
 };
 
-const resolveSessionToken = async (config: ApiConfig, forceRefresh: boolean): Promise<string> => {
+const sessionRefreshWindowMs = (config: ApiConfig): number =>
+  config.sessionTokenRefreshWindowMs ?? DEFAULT_SESSION_TOKEN_REFRESH_WINDOW_MS;
+
+// Call the supplier once for every caller waiting on a new token
+const refreshSessionToken = (
+  config: ApiConfig,
+  supplier: SessionTokenSupplier
+): Promise<SessionTokenCacheEntry> => {
+  const inFlight = sessionTokenRefreshes.get(supplier);
+  if (inFlight) return inFlight;
+
+  const refresh = (async () => {
+    try {
+      const session = await supplier();
+      if (!session?.token || !session?.expiresAt) {
+        throw new RenderAuthError("getRenderSessionToken must return { token, expiresAt }");
+      }
+
+      const entry: SessionTokenCacheEntry = {
+        token: session.token,
+        expiresAtMs: parseExpiresAtMs(session.expiresAt),
+        usedSinceRefresh: false,
+      };
+      clearTimeout(sessionTokenCache.get(supplier)?.refreshTimer);
+      sessionTokenCache.set(supplier, entry);
+      if (config.proactiveSessionRefresh) {
+        scheduleProactiveRefresh(config, supplier, entry);
+      }
+      config.onTokenRefreshed?.(session);
+      return entry;
+    } catch (error) {
+      config.onSessionError?.(
+        error instanceof Error ? error : new RenderAuthError("Session token refresh failed")
+      );
+      throw error;
+    } finally {
+      sessionTokenRefreshes.delete(supplier);
+    }
+  })();
+
+  sessionTokenRefreshes.set(supplier, refresh);
+  return refresh;
+};
+
+// Refresh shortly before expiry, so requests never wait on the token backend
+const scheduleProactiveRefresh = (
+  config: ApiConfig,
+  supplier: SessionTokenSupplier,
+  entry: SessionTokenCacheEntry
+) => {
+  const delayMs = entry.expiresAtMs - sessionRefreshWindowMs(config) - Date.now();
+  if (delayMs <= 0) return;
+
+  entry.refreshTimer = setTimeout(() => {
+    if (sessionTokenCache.get(supplier) !== entry || !entry.usedSinceRefresh) return;
+    // Failures reach onSessionError; the next request retries lazily
+    refreshSessionToken(config, supplier).catch(() => undefined);
+  }, delayMs);
+  // Do not keep a Node.js process alive just to refresh a token
+  (entry.refreshTimer as { unref?: () => void }).unref?.();
+};
+
+// `rejectedToken` is the token a 401 came back for. When another request has
+// already replaced it, the cached token is reused instead of refreshing again.
+const resolveSessionToken = async (
+  config: ApiConfig,
+  forceRefresh: boolean,
+  rejectedToken?: string
+): Promise<string> => {
   const supplier = config.getRenderSessionToken;
   if (!supplier) {
-    throw new Error("authMode=session requires getRenderSessionToken");
+    throw new RenderAuthError("authMode=session requires getRenderSessionToken");
   }
 
   const cached = sessionTokenCache.get(supplier);
-  const now = Date.now();
-  if (
-    !forceRefresh &&
-    cached &&
-    cached.expiresAtMs - SESSION_TOKEN_REFRESH_WINDOW_MS > now
-  ) {
+  const isFresh =
+    cached !== undefined && cached.expiresAtMs - sessionRefreshWindowMs(config) > Date.now();
+  const isRejected = forceRefresh && (rejectedToken === undefined || cached?.token === rejectedToken);
+  if (cached && isFresh && !isRejected) {
+    cached.usedSinceRefresh = true;
     return cached.token;
   }
 
-  const session = await supplier();
-  if (!session?.token || !session?.expiresAt) {
-    throw new Error("getRenderSessionToken must return { token, expiresAt }");
-  }
-
-  const expiresAtMs = parseExpiresAtMs(session.expiresAt);
-  sessionTokenCache.set(supplier, {
-    token: session.token,
-    expiresAtMs,
-  });
-  return session.token;
+  const entry = await refreshSessionToken(config, supplier);
+  entry.usedSinceRefresh = true;
+  return entry.token;
 };
 
-const resolveAuthToken = async (config: ApiConfig, forceRefresh: boolean): Promise<string | undefined> => {
+const resolveAuthToken = async (
+  config: ApiConfig,
+  forceRefresh: boolean,
+  rejectedToken?: string
+): Promise<string | undefined> => {
   if (isSessionAuthMode(config)) {
-    return resolveSessionToken(config, forceRefresh);
+    return resolveSessionToken(config, forceRefresh, rejectedToken);
   }
   return config.authToken;
 };
@@ -190,13 +363,84 @@ export const buildHeaders = (
   return headers;
 };
 
-const fetchWithApiAuth = async (
+// Abort helpers - aborted calls reject with the signal's reason (an AbortError by default)
+const createAbortError = (signal?: AbortSignal): unknown =>
+  signal?.reason ?? new DOMException("The operation was aborted", "AbortError");
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// Resolve the fetch implementation without binding it to `config`
+// (calling a native fetch with a foreign `this` throws "Illegal invocation")
+const resolveFetch = (config: ApiConfig): typeof fetch => {
+  const customFetch = config.fetch;
+  if (customFetch) {
+    return (input, init) => customFetch(input, init);
+  }
+  return (input, init) => fetch(input, init);
+};
+
+// Release a response that will not be read, so its connection is freed
+// (undici keeps unconsumed bodies - and their sockets - open)
+const discardResponse = async (response: Response) => {
+  try {
+    await response.body?.cancel();
+  } catch {
+    // Already consumed or errored - nothing to release
+  }
+};
+
+// Errors that must not be retried as network failures even though they are
+// TypeErrors: thrown while calling fetch rather than by its promise, or
+// raised by client interceptors
+const programmingErrors = new WeakSet<object>();
+
+/**
+ * Keep `error` from being treated as a network failure and retried
+ * @internal
+ */
+export const markNotNetworkFailure = (error: unknown) => {
+  if (typeof error === "object" && error !== null) programmingErrors.add(error);
+};
+
+const callFetch = (fetchImpl: typeof fetch, url: string, init: RequestInit): Promise<Response> => {
+  try {
+    return fetchImpl(url, init);
+  } catch (error) {
+    markNotNetworkFailure(error);
+    throw error;
+  }
+};
+
+const sendWithApiAuth = async (
   url: string,
   init: RequestInit,
   config: ApiConfig
 ): Promise<Response> => {
+  const fetchImpl = resolveFetch(config);
+  throwIfAborted(init.signal ?? undefined);
   const firstToken = await resolveAuthToken(config, false);
-  const firstResponse = await fetch(url, {
+  const firstResponse = await callFetch(fetchImpl, url, {
     ...init,
     headers: buildHeaders(config, firstToken),
   });
@@ -205,47 +449,92 @@ const fetchWithApiAuth = async (
     return firstResponse;
   }
 
-  const refreshedToken = await resolveAuthToken(config, true);
-  return fetch(url, {
+  await discardResponse(firstResponse);
+  const refreshedToken = await resolveAuthToken(config, true, firstToken);
+  throwIfAborted(init.signal ?? undefined);
+  return callFetch(fetchImpl, url, {
     ...init,
     headers: buildHeaders(config, refreshedToken),
   });
 };
 
-const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+// Retry policies per request kind
+const readRetryPolicy = (config: ApiConfig): ResolvedRetryPolicy =>
+  resolveRetryPolicy(config.retry, DEFAULT_RETRY_POLICY);
+
+const jobCreationRetryPolicy = (config: ApiConfig): ResolvedRetryPolicy =>
+  resolveRetryPolicy(config.jobCreationRetry, DEFAULT_JOB_CREATION_RETRY_POLICY);
+
+// Authenticated fetch with retries for transient failures.
+// Returns the last response once it is not retryable or attempts run out.
+const fetchWithApiAuth = async (
+  url: string,
+  init: RequestInit,
+  config: ApiConfig,
+  retryPolicy: ResolvedRetryPolicy = NO_RETRY_POLICY
+): Promise<Response> => {
+  const signal = init.signal ?? undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+    try {
+      response = await sendWithApiAuth(url, init, config);
+    } catch (error) {
+      // fetch rejects with a TypeError when no response arrives (network failure)
+      const isNetworkError =
+        error instanceof TypeError && !programmingErrors.has(error) && !signal?.aborted;
+      if (
+        !isNetworkError ||
+        !retryPolicy.retryOnNetworkError ||
+        attempt >= retryPolicy.maxAttempts
+      ) {
+        throw error;
+      }
+      await sleep(computeRetryDelayMs(retryPolicy, attempt), signal);
+      continue;
+    }
+
+    if (
+      attempt >= retryPolicy.maxAttempts ||
+      !retryPolicy.retryOnStatuses.includes(response.status)
+    ) {
+      return response;
+    }
+
+    const retryAfterMs = parseRetryAfterMs(response.headers.get("Retry-After"));
+    await discardResponse(response);
+    await sleep(computeRetryDelayMs(retryPolicy, attempt, retryAfterMs), signal);
+  }
+};
 
 // API Implementation
 export const renderBuildExperimental = async (
   request: RenderBuildRequest,
-  config: ApiConfig
+  config: ApiConfig,
+  options?: ApiRequestOptions
 ): Promise<RenderBuildResponse> => {
-  const requestWithFormat = {
-    ...request,
-    format: request.format || "video", // Default to video format
-    // Include width and height if provided
-    ...(request.width !== undefined ? { width: request.width } : {}),
-    ...(request.height !== undefined ? { height: request.height } : {}),
-    // Include profile if provided
-    ...(request.profile ? { profile: request.profile } : {}),
-    ...(request.scene ? { scene: request.scene } : {}),
-    ...(request.showBackground !== undefined ? { showBackground: request.showBackground } : {}),
-    ...(request.showGrid !== undefined ? { showGrid: request.showGrid } : {}),
-    ...(request.winterMode !== undefined ? { winterMode: request.winterMode } : {}),
-    ...(request.springMode !== undefined ? { springMode: request.springMode } : {}),
-  };
+  const body = buildRenderRequestBody(
+    API_ENDPOINTS.RENDER_BUILD_EXPERIMENTAL,
+    { ...request, format: request.format || "video" },
+    config
+  );
 
   const response = await fetchWithApiAuth(
     buildApiUrl(API_ENDPOINTS.RENDER_BUILD_EXPERIMENTAL, config),
     {
       method: "POST",
-      body: JSON.stringify(requestWithFormat),
+      body,
+      signal: options?.signal,
     },
-    config
+    config,
+    readRetryPolicy(config)
   );
 
   if (!response.ok) {
-    throw new Error(
-      `Render build failed: ${response.status} ${response.statusText}`
+    throw await createResponseError(
+      response,
+      `Render build failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.RENDER_BUILD_EXPERIMENTAL }
     );
   }
 
@@ -263,157 +552,395 @@ export const renderBuildExperimental = async (
 // New async endpoints implementation
 export const createRenderBuildJob = async (
   request: RenderBuildRequest,
-  config: ApiConfig
+  config: ApiConfig,
+  options?: ApiRequestOptions
 ): Promise<RenderJobCreateResponse> => {
-  const body = {
-    parts: request.parts,
-    // If provided, forward format; default handled server-side but we keep explicit default
-    ...(request.format ? { format: request.format } : {}),
-    // Include width and height if provided
-    ...(request.width !== undefined ? { width: request.width } : {}),
-    ...(request.height !== undefined ? { height: request.height } : {}),
-    // Include profile if provided
-    ...(request.profile ? { profile: request.profile } : {}),
-    ...(request.scene ? { scene: request.scene } : {}),
-    ...(request.showBackground !== undefined ? { showBackground: request.showBackground } : {}),
-    // Include composition settings
-    ...(request.showGrid !== undefined ? { showGrid: request.showGrid } : {}),
-    ...(request.winterMode !== undefined ? { winterMode: request.winterMode } : {}),
-    ...(request.springMode !== undefined ? { springMode: request.springMode } : {}),
-    ...(request.cameraOffsetX !== undefined ? { cameraOffsetX: request.cameraOffsetX } : {}),
-    ...(request.gridSettings ? { gridSettings: request.gridSettings } : {}),
-    // Include frame quality for sprite rendering
-    ...(request.frameQuality ? { frameQuality: request.frameQuality } : {}),
-    // Include camera zoom for render-time scaling
-    ...(request.cameraZoom !== undefined ? { cameraZoom: request.cameraZoom } : {}),
-  };
+  const body = buildRenderRequestBody(API_ENDPOINTS.RENDER_BUILD, request, config);
 
   const response = await fetchWithApiAuth(
     buildApiUrl(API_ENDPOINTS.RENDER_BUILD, config),
     {
       method: "POST",
-      body: JSON.stringify(body),
+      body,
+      signal: options?.signal,
     },
-    config
+    config,
+    jobCreationRetryPolicy(config)
   );
 
   if (!response.ok) {
-    throw new Error(`Create render job failed: ${response.status} ${response.statusText}`);
+    throw await createResponseError(
+      response,
+      `Create render job failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.RENDER_BUILD }
+    );
   }
 
   const data = (await response.json()) as RenderJobCreateResponse;
   if (!data?.job_id) {
-    throw new Error("Create render job failed: missing job_id in response");
+    throw new RenderApiError("Create render job failed: missing job_id in response", {
+      endpoint: API_ENDPOINTS.RENDER_BUILD,
+      status: response.status,
+      body: data,
+    });
   }
   return data;
 };
 
-export const getRenderBuildStatus = async (
+// Fetch a job's status along with the server's polling hint (Retry-After)
+const fetchRenderBuildStatus = async (
   jobId: string,
-  config: ApiConfig
-): Promise<RenderJobStatusResponse> => {
+  config: ApiConfig,
+  options?: ApiRequestOptions
+): Promise<{ status: RenderJobStatusResponse; retryAfterMs?: number }> => {
   const url = buildApiUrl(`${API_ENDPOINTS.RENDER_BUILD}/${encodeURIComponent(jobId)}`, config);
   const response = await fetchWithApiAuth(
     url,
-    { method: "GET" },
-    config
+    { method: "GET", signal: options?.signal },
+    config,
+    readRetryPolicy(config)
   );
 
   if (response.status === 404) {
-    throw new Error("Render job not found");
+    throw await createResponseError(response, "Render job not found", {
+      endpoint: API_ENDPOINTS.RENDER_BUILD,
+      jobId,
+    });
   }
   if (!response.ok) {
-    throw new Error(`Get render job status failed: ${response.status} ${response.statusText}`);
+    throw await createResponseError(
+      response,
+      `Get render job status failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.RENDER_BUILD, jobId }
+    );
   }
 
-  return (await response.json()) as RenderJobStatusResponse;
+  return {
+    status: (await response.json()) as RenderJobStatusResponse,
+    retryAfterMs: parseRetryAfterMs(response.headers.get("Retry-After")),
+  };
 };
 
-export const renderBuild = async (
-  request: RenderBuildRequest,
+export const getRenderBuildStatus = async (
+  jobId: string,
   config: ApiConfig,
-  options?: { pollIntervalMs?: number; timeoutMs?: number }
+  options?: ApiRequestOptions
+): Promise<RenderJobStatusResponse> => {
+  const { status } = await fetchRenderBuildStatus(jobId, config, options);
+  return status;
+};
+
+const resolvePollingStrategy = (options?: RenderJobPollingOptions): PollingStrategy => {
+  if (options?.pollingStrategy) return options.pollingStrategy;
+  if (options?.pollIntervalMs !== undefined) {
+    return createFixedPollingStrategy(options.pollIntervalMs);
+  }
+  return DEFAULT_POLLING_STRATEGY;
+};
+
+// Sprite grid from the completed job status, or from its sidecar manifest.
+// A missing or unreadable manifest is not a render failure - the viewer
+// falls back to the expected grid and checks it against the image.
+const resolveReportedSpriteLayout = async (
+  status: RenderJobCreateResponse | RenderJobStatusResponse,
+  config: ApiConfig,
+  signal: AbortSignal
+): Promise<SpriteLayout | undefined> => {
+  const inline = parseSpriteLayout(status.sprite_layout);
+  if (inline || !status.sprite_manifest_url) return inline ?? undefined;
+  try {
+    return await getSpriteLayoutManifest(status.sprite_manifest_url, config, { signal });
+  } catch (error) {
+    if (signal.aborted) throw error;
+    return undefined;
+  }
+};
+
+// Poll a created render job until it completes, fails or times out,
+// reporting every observed status through `onStatus`
+const pollRenderJob = async (
+  created: RenderJobCreateResponse,
+  context: {
+    format: "video" | "sprite";
+    endpoint: string;
+    shareCode?: string;
+    startedAt: number;
+  },
+  config: ApiConfig,
+  options?: RenderJobPollingOptions
 ): Promise<RenderBuildAsyncResponse> => {
-  const pollIntervalMs = options?.pollIntervalMs ?? 1500;
+  const pollingStrategy = resolvePollingStrategy(options);
   const timeoutMs = options?.timeoutMs ?? 120_000; // 2 minutes default
+  const jobId = created.job_id;
+  const errorDetails = { endpoint: context.endpoint, jobId, shareCode: context.shareCode };
+
+  // Abort in-flight polls and delays exactly at the deadline, or when the caller aborts
+  const deadlineController = new AbortController();
+  const signal = deadlineController.signal;
+  const forwardAbort = () => deadlineController.abort(createAbortError(options?.signal));
+  if (options?.signal?.aborted) {
+    forwardAbort();
+  } else {
+    options?.signal?.addEventListener("abort", forwardAbort, { once: true });
+  }
+  const deadlineTimer = setTimeout(() => {
+    deadlineController.abort(
+      new RenderTimeoutError("Timed out waiting for render job to complete", errorDetails)
+    );
+  }, timeoutMs);
+
+  let previousStatus: RenderJobStatus | null = null;
+  let pollCount = 0;
+  const reportStatus = (response: RenderJobCreateResponse | RenderJobStatusResponse) => {
+    options?.onStatus?.({
+      jobId,
+      status: response.status,
+      previousStatus,
+      elapsedMs: Date.now() - context.startedAt,
+      pollCount,
+      response,
+    });
+    previousStatus = response.status;
+  };
+
+  const assetUrlOf = (response: RenderJobCreateResponse | RenderJobStatusResponse) =>
+    (context.format === "sprite" ? response.sprite_url : response.video_url) ||
+    response.url ||
+    undefined;
+  const completedResult = async (
+    response: RenderJobCreateResponse | RenderJobStatusResponse,
+    videoUrl: string
+  ): Promise<RenderBuildAsyncResponse> => ({
+    videoUrl,
+    jobId,
+    screenshotUrl: response.screenshot_url || undefined,
+    spriteLayout:
+      context.format === "sprite"
+        ? await resolveReportedSpriteLayout(response, config, signal)
+        : undefined,
+  });
+
+  try {
+    reportStatus(created);
+
+    // A cache hit is completed on creation - no status poll needed
+    const createdUrl = created.status === "completed" ? assetUrlOf(created) : undefined;
+    if (createdUrl) {
+      return await completedResult(created, createdUrl);
+    }
+
+    const start = Date.now();
+    // Poll until completed or error or timeout
+    for (;;) {
+      const { status, retryAfterMs } = await fetchRenderBuildStatus(jobId, config, { signal });
+      pollCount += 1;
+      reportStatus(status);
+
+      if (status.status === "completed") {
+        const finalUrl = assetUrlOf(status);
+        if (!finalUrl) {
+          throw new RenderJobFailedError("Render job completed but no URL returned", {
+            ...errorDetails,
+            body: status,
+          });
+        }
+        return await completedResult(status, finalUrl);
+      }
 
-  const { job_id } = await createRenderBuildJob(request, config);
-
-  const start = Date.now();
-  // Poll until completed or error or timeout
-  for (;;) {
-    const status = await getRenderBuildStatus(job_id, config);
-    if (status.status === "completed") {
-      const requestedFormat = request.format ?? "video";
-      const finalUrl =
-        (requestedFormat === "sprite"
-          ? status.sprite_url || status.url || undefined
-          : status.video_url || status.url || undefined);
-      if (!finalUrl) {
-        throw new Error("Render job completed but no URL returned");
+      if (status.status === "error") {
+        throw new RenderJobFailedError(status.error || "Render job failed", {
+          ...errorDetails,
+          body: status,
+        });
       }
-      return { videoUrl: finalUrl };
+
+      const elapsedMs = Date.now() - start;
+      const delayMs = pollingStrategy({
+        pollCount,
+        elapsedMs,
+        status: status.status,
+        retryAfterMs,
+      });
+      // The deadline timer rejects this sleep if it would overrun timeoutMs
+      await sleep(Math.max(0, delayMs), signal);
+    }
+  } catch (error) {
+    // Some fetch implementations reject with a generic AbortError instead of
+    // the abort reason - surface the timeout rather than a silent abort
+    if (signal.aborted && !options?.signal?.aborted) {
+      throw signal.reason;
     }
-    if (status.status === "error") {
-      throw new Error(status.error || "Render job failed");
+    throw error;
+  } finally {
+    clearTimeout(deadlineTimer);
+    options?.signal?.removeEventListener("abort", forwardAbort);
+  }
+};
+
+// Submit a render job and poll it to completion. With `cache`, a finished
+// render for the same input is returned without submitting; with
+// `jobPersistence`, a pending job for the same input is resumed; with
+// `scheduler`, the job waits for a free slot and is shared by identical requests.
+const submitAndPollRenderJob = async (
+  submit: (signal?: AbortSignal) => Promise<RenderJobCreateResponse>,
+  context: { format: "video" | "sprite"; endpoint: string; shareCode?: string },
+  renderKeyInput: RenderKeyInput,
+  config: ApiConfig,
+  options?: RenderJobPollingOptions
+): Promise<RenderBuildAsyncResponse> => {
+  const { cache, scheduler } = options ?? {};
+  const persistence = resolveJobPersistence(options?.jobPersistence);
+  const renderKey =
+    cache || persistence || scheduler ? createRenderKey(renderKeyInput, config) : null;
+
+  if (cache && renderKey) {
+    const cached = await cache.get(renderKey);
+    if (cached) return cached;
+  }
+
+  const run = async (runOptions?: RenderJobPollingOptions) => {
+    const jobKey = persistence ? renderKey : null;
+
+    // Forget the stored job once it settled; keep it when the caller aborted
+    // (unmount, navigation) so the next mount can resume it
+    const pollAndSettle = async (created: RenderJobCreateResponse, startedAt: number) => {
+      try {
+        const result = await pollRenderJob(created, { ...context, startedAt }, config, runOptions);
+        if (persistence && jobKey) await clearPersistedJob(persistence, jobKey);
+        if (cache && renderKey) await cache.set(renderKey, result);
+        return result;
+      } catch (error) {
+        if (persistence && jobKey && !runOptions?.signal?.aborted) {
+          await clearPersistedJob(persistence, jobKey);
+        }
+        throw error;
+      }
+    };
+
+    if (persistence && jobKey) {
+      const pending = await loadPersistedJob(persistence, jobKey);
+      if (pending) {
+        try {
+          return await pollAndSettle(
+            { job_id: pending.jobId, status: pending.status },
+            pending.createdAt
+          );
+        } catch (error) {
+          // The job expired or belongs to another customer - submit a fresh one
+          if (!(error instanceof RenderNotFoundError)) throw error;
+          await clearPersistedJob(persistence, jobKey);
+        }
+      }
     }
 
-    if (Date.now() - start > timeoutMs) {
-      throw new Error("Timed out waiting for render job to complete");
+    const startedAt = Date.now();
+    const created = await submit(runOptions?.signal);
+    if (persistence && jobKey && created.status !== "completed") {
+      await savePersistedJob(persistence, jobKey, created.job_id, created.status);
     }
+    return pollAndSettle(created, startedAt);
+  };
 
-    await sleep(pollIntervalMs);
-  }
+  if (!scheduler || !renderKey) return run(options);
+
+  // The scheduled run gets its own signal, aborted only once every caller
+  // sharing it has aborted, and fans its status events out to all of them
+  return scheduler.schedule(
+    renderKey,
+    (signal, emitStatus) => run({ ...options, signal, onStatus: emitStatus }),
+    { priority: options?.priority, signal: options?.signal, onStatus: options?.onStatus }
+  );
 };
 
+export const renderBuild = async (
+  request: RenderBuildRequest,
+  config: ApiConfig,
+  options?: RenderJobPollingOptions
+): Promise<RenderBuildAsyncResponse> =>
+  submitAndPollRenderJob(
+    (signal) => createRenderBuildJob(request, config, { signal }),
+    { format: request.format ?? "video", endpoint: API_ENDPOINTS.RENDER_BUILD },
+    { type: "parts", request },
+    config,
+    options
+  );
+
 export const renderSpriteExperimental = async (
   request: RenderBuildRequest,
-  config: ApiConfig
+  config: ApiConfig,
+  options?: ApiRequestOptions
 ): Promise<RenderSpriteResponse> => {
-  const requestWithFormat = {
-    ...request,
-    format: "sprite",
-    // Include width and height if provided
-    ...(request.width !== undefined ? { width: request.width } : {}),
-    ...(request.height !== undefined ? { height: request.height } : {}),
-    // Include profile if provided
-    ...(request.profile ? { profile: request.profile } : {}),
-    ...(request.scene ? { scene: request.scene } : {}),
-    ...(request.showBackground !== undefined ? { showBackground: request.showBackground } : {}),
-    ...(request.showGrid !== undefined ? { showGrid: request.showGrid } : {}),
-    ...(request.winterMode !== undefined ? { winterMode: request.winterMode } : {}),
-    ...(request.springMode !== undefined ? { springMode: request.springMode } : {}),
-  };
+  const body = buildRenderRequestBody(
+    API_ENDPOINTS.RENDER_BUILD_EXPERIMENTAL,
+    { ...request, format: "sprite" },
+    config
+  );
 
   const response = await fetchWithApiAuth(
     buildApiUrl(API_ENDPOINTS.RENDER_BUILD_EXPERIMENTAL, config),
     {
       method: "POST",
-      body: JSON.stringify(requestWithFormat),
+      body,
+      signal: options?.signal,
     },
-    config
+    config,
+    readRetryPolicy(config)
   );
 
   if (!response.ok) {
-    throw new Error(
-      `Render sprite failed: ${response.status} ${response.statusText}`
+    throw await createResponseError(
+      response,
+      `Render sprite failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.RENDER_BUILD_EXPERIMENTAL }
     );
   }
 
   const sprite = await response.blob();
+  const layout = readSpriteLayoutHeaders(response.headers);
 
   return {
     sprite,
     metadata: {
-      cols: 12, // Default sprite grid - could be returned from API
-      rows: 6,
-      totalFrames: 72,
+      cols: layout?.cols,
+      rows: layout?.rows,
+      totalFrames: layout?.totalFrames,
       size: sprite.size,
       format: "image/webp",
     },
   };
 };
 
+/**
+ * Fetch a sprite sheet's sidecar manifest (the job status `sprite_manifest_url`)
+ * and read its grid. The manifest is a static asset, so no auth is sent.
+ *
+ * @example
+ * ```tsx
+ * const layout = await getSpriteLayoutManifest(status.sprite_manifest_url, config);
+ * // => { cols: 12, rows: 6, totalFrames: 72 }
+ * ```
+ */
+export const getSpriteLayoutManifest = async (
+  url: string,
+  config: ApiConfig,
+  options?: ApiRequestOptions
+): Promise<SpriteLayout> => {
+  const response = await resolveFetch(config)(url, { signal: options?.signal });
+  if (!response.ok) {
+    throw await createResponseError(
+      response,
+      `Sprite layout manifest failed: ${response.status} ${response.statusText}`
+    );
+  }
+
+  const body: unknown = await response.json();
+  const layout = parseSpriteLayout(body);
+  if (!layout) {
+    throw new RenderApiError("Sprite layout manifest has no valid cols / rows grid", { body });
+  }
+  return layout;
+};
+
 export const getAvailableParts = async (
   category: PartCategory,
   config: ApiConfig,
@@ -429,19 +956,145 @@ export const getAvailableParts = async (
 
   const response = await fetchWithApiAuth(
     url,
-    { method: "GET" },
-    config
+    { method: "GET", signal: options?.signal },
+    config,
+    readRetryPolicy(config)
   );
 
   if (!response.ok) {
-    throw new Error(
-      `Get available parts failed: ${response.status} ${response.statusText}`
+    throw await createResponseError(
+      response,
+      `Get available parts failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.AVAILABLE_PARTS }
     );
   }
 
   return (await response.json()) as AvailablePartsResponse;
 };
 
+/** Most parts the available-parts endpoint returns per page */
+export const AVAILABLE_PARTS_MAX_PAGE_SIZE = 100;
+const DEFAULT_MAX_PARTS = 5000;
+
+/** @internal */
+export interface AvailablePartsPage {
+  parts: PartDetails[];
+  /** Whether another page follows this one */
+  hasNext: boolean;
+}
+
+/**
+ * Iterate over the pages of a category's available parts. Shared by
+ * `iterateAvailableParts` and the part search index, which loads page by page.
+ *
+ * @internal
+ */
+export async function* iterateAvailablePartPages(
+  category: PartCategory,
+  config: ApiConfig,
+  options?: IterateAvailablePartsOptions
+): AsyncGenerator<AvailablePartsPage, void, undefined> {
+  const pageSize = Math.min(
+    options?.pageSize ?? AVAILABLE_PARTS_MAX_PAGE_SIZE,
+    AVAILABLE_PARTS_MAX_PAGE_SIZE
+  );
+  const prefetch = options?.prefetch ?? true;
+
+  // Owns the page requests, so a prefetched page is cancelled when the caller stops early
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(createAbortError(options?.signal));
+  if (options?.signal?.aborted) {
+    forwardAbort();
+  } else {
+    options?.signal?.addEventListener("abort", forwardAbort, { once: true });
+  }
+
+  const fetchPage = (skip: number) => {
+    const page = getAvailableParts(category, config, {
+      limit: pageSize,
+      skip,
+      signal: controller.signal,
+    });
+    // A prefetched page may be abandoned - its rejection is observed when awaited
+    page.catch(() => undefined);
+    return page;
+  };
+
+  try {
+    let skip = options?.skip ?? 0;
+    let nextPage: Promise<AvailablePartsResponse> | null = fetchPage(skip);
+    while (nextPage) {
+      const page: AvailablePartsResponse = await nextPage;
+      const parts = page.data[category] ?? [];
+      // Without pagination info, a full page is the only hint that more follow
+      const hasNext =
+        parts.length > 0 && (page.pagination ? page.pagination.hasNext : parts.length >= pageSize);
+      skip += parts.length;
+      nextPage = hasNext && prefetch ? fetchPage(skip) : null;
+
+      yield { parts, hasNext };
+
+      if (hasNext && !prefetch) nextPage = fetchPage(skip);
+    }
+  } finally {
+    controller.abort();
+    options?.signal?.removeEventListener("abort", forwardAbort);
+  }
+}
+
+/**
+ * Iterate over every available part of a category, page by page.
+ * The next page is requested while the current one is consumed; breaking
+ * out of the loop or aborting `signal` cancels it.
+ *
+ * @example
+ * ```tsx
+ * for await (const gpu of iterateAvailableParts(PartCategory.GPU, config)) {
+ *   console.log(gpu.id, gpu.name);
+ * }
+ * ```
+ */
+export async function* iterateAvailableParts(
+  category: PartCategory,
+  config: ApiConfig,
+  options?: IterateAvailablePartsOptions
+): AsyncGenerator<PartDetails, void, undefined> {
+  for await (const page of iterateAvailablePartPages(category, config, options)) {
+    for (const part of page.parts) {
+      throwIfAborted(options?.signal);
+      yield part;
+    }
+  }
+}
+
+/**
+ * Fetch every available part of a category, following pagination up to `maxParts`
+ *
+ * @example
+ * ```tsx
+ * const { parts, truncated } = await getAllAvailableParts(PartCategory.PCCase, config);
+ * ```
+ */
+export const getAllAvailableParts = async (
+  category: PartCategory,
+  config: ApiConfig,
+  options?: GetAllAvailablePartsOptions
+): Promise<AllAvailablePartsResponse> => {
+  const maxParts = options?.maxParts ?? DEFAULT_MAX_PARTS;
+  const parts: PartDetails[] = [];
+  let truncated = false;
+
+  for await (const part of iterateAvailableParts(category, config, options)) {
+    if (parts.length >= maxParts) {
+      truncated = true;
+      break;
+    }
+    parts.push(part);
+  }
+
+  return { category, parts, truncated };
+};
+
 // ============================================
 // Build and Parts API Functions
 // ============================================
@@ -452,6 +1105,7 @@ export const getAvailableParts = async (
  *
  * @param shareCode - The share code of the build to fetch
  * @param config - API configuration (environment, auth token)
+ * @param options - Request options (abort signal)
  * @returns Promise with build details including parts
  *
  * @example
@@ -470,34 +1124,77 @@ export const getAvailableParts = async (
  */
 export const getBuildByShareCode = async (
   shareCode: string,
-  config: ApiConfig
+  config: ApiConfig,
+  options?: ApiRequestOptions
 ): Promise<BuildResponse> => {
   const url = buildApiUrl(`${API_ENDPOINTS.BUILD}/${encodeURIComponent(shareCode)}`, config);
 
   const response = await fetchWithApiAuth(
     url,
-    { method: "GET" },
-    config
+    { method: "GET", signal: options?.signal },
+    config,
+    readRetryPolicy(config)
   );
 
   if (response.status === 404) {
-    throw new Error("Build not found");
+    throw await createResponseError(response, "Build not found", {
+      endpoint: API_ENDPOINTS.BUILD,
+      shareCode,
+    });
   }
 
   if (!response.ok) {
-    throw new Error(
-      `Get build by share code failed: ${response.status} ${response.statusText}`
+    throw await createResponseError(
+      response,
+      `Get build by share code failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.BUILD, shareCode }
     );
   }
 
   return (await response.json()) as BuildResponse;
 };
 
+// The parts endpoint accepts at most this many IDs per request
+export const PARTS_MAX_IDS_PER_REQUEST = 100;
+
+const fetchPartsChunk = async (
+  partIds: string[],
+  config: ApiConfig,
+  options?: ApiRequestOptions
+): Promise<PartDetailsWithCategory[]> => {
+  const url = buildApiUrl(API_ENDPOINTS.PARTS, config);
+
+  const response = await fetchWithApiAuth(
+    url,
+    {
+      method: "POST",
+      body: JSON.stringify({ ids: partIds }),
+      signal: options?.signal,
+    },
+    config,
+    readRetryPolicy(config)
+  );
+
+  if (!response.ok) {
+    throw await createResponseError(
+      response,
+      `Get parts by IDs failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.PARTS }
+    );
+  }
+
+  const data = (await response.json()) as Partial<PartsResponse>;
+  return data.parts ?? [];
+};
+
 /**
  * Fetch part details by their BuildCores IDs.
+ * Duplicate IDs are removed and lists over 100 IDs are split into several
+ * requests. IDs the API does not know are listed in `missingIds`.
  *
  * @param partIds - Array of BuildCores part IDs to fetch
  * @param config - API configuration (environment, auth token)
+ * @param options - Request options (abort signal)
  * @returns Promise with part details
  *
  * @example
@@ -510,30 +1207,30 @@ export const getBuildByShareCode = async (
  * response.parts.forEach(part => {
  *   console.log(`${part.name} (${part.category})`);
  * });
+ * if (response.missingIds.length > 0) {
+ *   console.warn('Unknown parts:', response.missingIds);
+ * }
  * ```
  */
 export const getPartsByIds = async (
   partIds: string[],
-  config: ApiConfig
-): Promise<PartsResponse> => {
-  const url = buildApiUrl(API_ENDPOINTS.PARTS, config);
-
-  const response = await fetchWithApiAuth(
-    url,
-    {
-      method: "POST",
-      body: JSON.stringify({ ids: partIds }),
-    },
-    config
-  );
-
-  if (!response.ok) {
-    throw new Error(
-      `Get parts by IDs failed: ${response.status} ${response.statusText}`
-    );
+  config: ApiConfig,
+  options?: ApiRequestOptions
+): Promise<PartsByIdsResponse> => {
+  const uniqueIds = [...new Set(partIds)];
+  const chunks: string[][] = [];
+  for (let i = 0; i < uniqueIds.length; i += PARTS_MAX_IDS_PER_REQUEST) {
+    chunks.push(uniqueIds.slice(i, i + PARTS_MAX_IDS_PER_REQUEST));
   }
 
-  return (await response.json()) as PartsResponse;
+  const results = await Promise.all(chunks.map((chunk) => fetchPartsChunk(chunk, config, options)));
+  const parts = results.flat();
+  const foundIds = new Set(parts.map((part) => part.id));
+
+  return {
+    parts,
+    missingIds: uniqueIds.filter((id) => !foundIds.has(id)),
+  };
 };
 
 /**
@@ -542,55 +1239,57 @@ export const getPartsByIds = async (
  *
  * @param shareCode - The share code of the build to render
  * @param config - API configuration (environment, auth token)
- * @param options - Render options (format, dimensions, profile)
+ * @param options - Render options (format, dimensions, profile) and abort signal
  * @returns Promise with job creation response
  */
 export const createRenderByShareCodeJob = async (
   shareCode: string,
   config: ApiConfig,
-  options?: Omit<RenderByShareCodeOptions, "pollIntervalMs" | "timeoutMs">
+  options?: RenderByShareCodeJobOptions
 ): Promise<RenderByShareCodeJobResponse> => {
   const url = buildApiUrl(API_ENDPOINTS.RENDER_BY_SHARE_CODE, config);
 
-  const body = {
-    shareCode,
-    ...(options?.format ? { format: options.format } : {}),
-    ...(options?.width !== undefined ? { width: options.width } : {}),
-    ...(options?.height !== undefined ? { height: options.height } : {}),
-    ...(options?.profile ? { profile: options.profile } : {}),
-    ...(options?.scene ? { scene: options.scene } : {}),
-    ...(options?.showBackground !== undefined ? { showBackground: options.showBackground } : {}),
-    ...(options?.showGrid !== undefined ? { showGrid: options.showGrid } : {}),
-    ...(options?.winterMode !== undefined ? { winterMode: options.winterMode } : {}),
-    ...(options?.springMode !== undefined ? { springMode: options.springMode } : {}),
-    ...(options?.cameraOffsetX !== undefined ? { cameraOffsetX: options.cameraOffsetX } : {}),
-    ...(options?.gridSettings ? { gridSettings: options.gridSettings } : {}),
-    ...(options?.frameQuality ? { frameQuality: options.frameQuality } : {}),
-    ...(options?.cameraZoom !== undefined ? { cameraZoom: options.cameraZoom } : {}),
-  };
+  const { signal, ...renderOptions } = options ?? {};
+  const body = buildRenderRequestBody(
+    API_ENDPOINTS.RENDER_BY_SHARE_CODE,
+    { ...renderOptions, shareCode },
+    config
+  );
 
   const response = await fetchWithApiAuth(
     url,
     {
       method: "POST",
-      body: JSON.stringify(body),
+      body,
+      signal,
     },
-    config
+    config,
+    jobCreationRetryPolicy(config)
   );
 
   if (response.status === 404) {
-    throw new Error("Build not found");
+    throw await createResponseError(response, "Build not found", {
+      endpoint: API_ENDPOINTS.RENDER_BY_SHARE_CODE,
+      shareCode,
+    });
   }
 
   if (!response.ok) {
-    throw new Error(
-      `Create render job failed: ${response.status} ${response.statusText}`
+    throw await createResponseError(
+      response,
+      `Create render job failed: ${response.status} ${response.statusText}`,
+      { endpoint: API_ENDPOINTS.RENDER_BY_SHARE_CODE, shareCode }
     );
   }
 
   const data = (await response.json()) as RenderByShareCodeJobResponse;
   if (!data?.job_id) {
-    throw new Error("Create render job failed: missing job_id in response");
+    throw new RenderApiError("Create render job failed: missing job_id in response", {
+      endpoint: API_ENDPOINTS.RENDER_BY_SHARE_CODE,
+      status: response.status,
+      shareCode,
+      body: data,
+    });
   }
 
   return data;
@@ -602,7 +1301,7 @@ export const createRenderByShareCodeJob = async (
  *
  * @param shareCode - The share code of the build to render
  * @param config - API configuration (environment, auth token)
- * @param options - Render options including polling configuration
+ * @param options - Render options including polling configuration and abort signal
  * @returns Promise with the final render URL
  *
  * @example
@@ -629,39 +1328,31 @@ export const renderByShareCode = async (
   config: ApiConfig,
   options?: RenderByShareCodeOptions
 ): Promise<RenderByShareCodeResponse> => {
-  const pollIntervalMs = options?.pollIntervalMs ?? 1500;
-  const timeoutMs = options?.timeoutMs ?? 120_000; // 2 minutes default
-
-  const { job_id } = await createRenderByShareCodeJob(shareCode, config, options);
-
-  const start = Date.now();
-  // Poll until completed or error or timeout
-  for (;;) {
-    const status = await getRenderBuildStatus(job_id, config);
-    
-    if (status.status === "completed") {
-      const requestedFormat = options?.format ?? "video";
-      const finalUrl =
-        requestedFormat === "sprite"
-          ? status.sprite_url || status.url || undefined
-          : status.video_url || status.url || undefined;
-      
-      if (!finalUrl) {
-        throw new Error("Render job completed but no URL returned");
-      }
-      return { videoUrl: finalUrl };
-    }
-    
-    if (status.status === "error") {
-      throw new Error(status.error || "Render job failed");
-    }
-
-    if (Date.now() - start > timeoutMs) {
-      throw new Error("Timed out waiting for render job to complete");
-    }
-
-    await sleep(pollIntervalMs);
-  }
+  const {
+    signal,
+    cache,
+    scheduler,
+    priority,
+    jobPersistence,
+    onStatus,
+    pollIntervalMs,
+    pollingStrategy,
+    timeoutMs,
+    ...renderOptions
+  } = options ?? {};
+
+  return submitAndPollRenderJob(
+    (submitSignal) =>
+      createRenderByShareCodeJob(shareCode, config, { ...renderOptions, signal: submitSignal }),
+    {
+      format: options?.format ?? "video",
+      endpoint: API_ENDPOINTS.RENDER_BY_SHARE_CODE,
+      shareCode,
+    },
+    { type: "shareCode", shareCode, options: renderOptions },
+    config,
+    options
+  );
 };
 
 // Export the base URL for external use
@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { createMockRenderApi } from "../testing";
+import { RenderBatchProgressEvent, runRenderBatch } from "./batch";
+import { parseManifest } from "./manifest";
+import { NodeFs, NodePath } from "./node";
+
+// In-memory stand-ins for node:fs/promises and node:path
+const createMemoryFs = (): NodeFs & { files: Map<string, string | Uint8Array> } => {
+  const files = new Map<string, string | Uint8Array>();
+  return {
+    files,
+    readFile: async (path) => String(files.get(path) ?? ""),
+    writeFile: async (path, data) => void files.set(path, data),
+    mkdir: async () => undefined,
+  };
+};
+
+const path: NodePath = {
+  join: (...segments) => segments.filter(Boolean).join("/"),
+  resolve: (...segments) => segments.join("/"),
+  relative: (_from, to) => to,
+  extname: (file) => /\.[^./]*$/.exec(file)?.[0] ?? "",
+};
+
+const setup = () => {
+  const mock = createMockRenderApi({ lifecycle: [{ status: "completed" }] });
+  const config = { baseUrl: "https://mock.local", authToken: "test", fetch: mock.fetch };
+  return { mock, config };
+};
+
+describe("runRenderBatch", () => {
+  it("downloads every format and reports each entry", async () => {
+    const { mock, config } = setup();
+    const fs = createMemoryFs();
+    const entries = parseManifest(
+      JSON.stringify([
+        { id: "saved", shareCode: "mock-build", formats: ["video", "sprite"] },
+        { id: "custom", parts: { CPU: mock.parts[0].id }, frameQuality: "high" },
+      ]),
+      "json"
+    );
+
+    const report = await runRenderBatch(entries, { config, outDir: "out", fs, path });
+
+    expect(report).toMatchObject({ baseUrl: "https://mock.local", total: 2, succeeded: 2, failed: 0 });
+    const [saved, custom] = report.results;
+    expect(saved.outputs.map(({ format, file }) => `${format}:${file}`).sort()).toEqual([
+      "sprite:saved/sprite.png",
+      "video:saved/video.mp4",
+    ]);
+    expect(custom.outputs.map(({ file }) => file)).toEqual(["custom/video.mp4"]);
+    expect(fs.files.has("out/saved/sprite.png")).toBe(true);
+    // frameQuality is a sprite option - it is not sent with video requests
+    const customJob = [...mock.jobs.values()].find((job) => !job.shareCode);
+    expect(customJob?.request.frameQuality).toBeUndefined();
+  });
+
+  it("records failures in the report without stopping the batch", async () => {
+    const { config } = setup();
+    const events: RenderBatchProgressEvent[] = [];
+    const entries = parseManifest("shareCode\nmock-build\nno-such-build\n", "csv");
+
+    const report = await runRenderBatch(entries, {
+      config,
+      outDir: "out",
+      download: false,
+      onProgress: (event) => events.push(event),
+      fs: createMemoryFs(),
+      path,
+    });
+
+    expect(report).toMatchObject({ total: 2, succeeded: 1, failed: 1 });
+    expect(report.results[0].outputs[0]).toMatchObject({ format: "video", file: null });
+    expect(report.results[1]).toMatchObject({
+      id: "no-such-build",
+      status: "failed",
+      errors: [{ format: "video", name: "RenderNotFoundError", status: 404 }],
+    });
+    expect(events.filter(({ type }) => type === "entry")).toHaveLength(2);
+  });
+});
@@ -0,0 +1,242 @@
+import { ApiConfig, RenderJobStatus, RenderJobStatusEvent } from "../types";
+import { renderBuild, renderByShareCode } from "../api";
+import { RenderApiError } from "../errors";
+import { createRenderScheduler } from "../renderScheduler";
+import { assertValidRenderRequest } from "../validation";
+import { ManifestEntry, RenderOutputFormat } from "./manifest";
+import { NodeFs, NodePath } from "./node";
+
+export interface RenderBatchOptions {
+  config: ApiConfig;
+  /** Directory that receives one subdirectory per entry */
+  outDir: string;
+  /** Render jobs in flight at once (default: 4) */
+  concurrency?: number;
+  /** Per-job timeout in milliseconds (default: 300000) */
+  timeoutMs?: number;
+  /** Download the rendered files; `false` only reports their URLs (default: true) */
+  download?: boolean;
+  onProgress?: (event: RenderBatchProgressEvent) => void;
+  fs: NodeFs;
+  path: NodePath;
+}
+
+export type RenderBatchProgressEvent =
+  | {
+      type: "status";
+      entry: ManifestEntry;
+      format: RenderOutputFormat;
+      status: RenderJobStatus;
+      elapsedMs: number;
+    }
+  | { type: "entry"; result: RenderBatchResult; completed: number; total: number };
+
+export interface RenderBatchOutput {
+  format: RenderOutputFormat;
+  url: string;
+  jobId: string | null;
+  /** Downloaded file, relative to the output directory */
+  file: string | null;
+  screenshotUrl: string | null;
+  screenshotFile: string | null;
+  elapsedMs: number;
+}
+
+export interface RenderBatchFailure {
+  format: RenderOutputFormat;
+  name: string;
+  message: string;
+  status?: number;
+  jobId?: string;
+}
+
+export interface RenderBatchResult {
+  id: string;
+  shareCode?: string;
+  status: "succeeded" | "failed";
+  outputs: RenderBatchOutput[];
+  errors: RenderBatchFailure[];
+}
+
+export interface RenderBatchReport {
+  startedAt: string;
+  finishedAt: string;
+  baseUrl?: string;
+  environment?: string;
+  total: number;
+  succeeded: number;
+  failed: number;
+  results: RenderBatchResult[];
+}
+
+const EXTENSIONS_BY_TYPE: Record<string, string> = {
+  "video/mp4": ".mp4",
+  "video/webm": ".webm",
+  "image/webp": ".webp",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/svg+xml": ".svg",
+};
+
+// File extension from the response type, then the URL, then the kind of file
+const pickExtension = (
+  contentType: string | null,
+  url: string,
+  fallback: string,
+  path: NodePath
+): string => {
+  const type = contentType?.split(";")[0].trim().toLowerCase();
+  if (type && EXTENSIONS_BY_TYPE[type]) return EXTENSIONS_BY_TYPE[type];
+  if (!url.startsWith("data:")) {
+    try {
+      const extension = path.extname(new URL(url).pathname);
+      if (/^\.[a-z0-9]{2,5}$/i.test(extension)) return extension.toLowerCase();
+    } catch {
+      // Not an absolute URL - use the fallback
+    }
+  }
+  return fallback;
+};
+
+const describeFailure = (format: RenderOutputFormat, error: unknown): RenderBatchFailure => {
+  const failure = error instanceof Error ? error : new Error(String(error));
+  return {
+    format,
+    name: failure.name,
+    message: failure.message,
+    status: failure instanceof RenderApiError ? failure.status : undefined,
+    jobId: failure instanceof RenderApiError ? failure.jobId : undefined,
+  };
+};
+
+/**
+ * Render every manifest entry in every requested format, with at most
+ * `concurrency` jobs in flight, and download the results into
+ * `<outDir>/<entry id>/`. Failures are recorded in the report instead of
+ * stopping the batch.
+ */
+export const runRenderBatch = async (
+  entries: ManifestEntry[],
+  options: RenderBatchOptions
+): Promise<RenderBatchReport> => {
+  const { config, outDir, fs, path, onProgress, download = true, timeoutMs = 300_000 } = options;
+  const scheduler = createRenderScheduler({ maxConcurrent: options.concurrency ?? 4 });
+  const startedAt = new Date().toISOString();
+  let completed = 0;
+
+  const downloadFile = async (url: string, name: string, fallbackExtension: string, entryDir: string) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Download failed with HTTP ${response.status}: ${url}`);
+    }
+    const extension = pickExtension(response.headers.get("content-type"), url, fallbackExtension, path);
+    const file = path.join(entryDir, `${name}${extension}`);
+    await fs.mkdir(path.join(outDir, entryDir), { recursive: true });
+    await fs.writeFile(path.join(outDir, file), new Uint8Array(await response.arrayBuffer()));
+    return file;
+  };
+
+  const renderEntry = async (entry: ManifestEntry): Promise<RenderBatchResult> => {
+    const outputs: RenderBatchOutput[] = [];
+    const errors: RenderBatchFailure[] = [];
+    let screenshotClaimed = false;
+
+    await Promise.all(
+      entry.formats.map(async (format) => {
+        const startedAtMs = Date.now();
+        // frameQuality only applies to sprites - keep it off video requests
+        const { frameQuality, ...sharedOptions } = entry.options;
+        const renderOptions =
+          format === "sprite" ? { ...sharedOptions, frameQuality, format } : { ...sharedOptions, format };
+        try {
+          const pollingOptions = {
+            scheduler,
+            timeoutMs,
+            onStatus: (event: RenderJobStatusEvent) => {
+              if (event.status === event.previousStatus) return;
+              onProgress?.({
+                type: "status",
+                entry,
+                format,
+                status: event.status,
+                elapsedMs: event.elapsedMs,
+              });
+            },
+          };
+          let result;
+          if (entry.shareCode) {
+            assertValidRenderRequest({ shareCode: entry.shareCode, ...renderOptions });
+            result = await renderByShareCode(entry.shareCode, config, {
+              ...renderOptions,
+              ...pollingOptions,
+            });
+          } else {
+            const request = { parts: entry.parts ?? {}, ...renderOptions };
+            assertValidRenderRequest(request);
+            result = await renderBuild(request, config, pollingOptions);
+          }
+
+          const output: RenderBatchOutput = {
+            format,
+            url: result.videoUrl,
+            jobId: result.jobId ?? null,
+            file: null,
+            screenshotUrl: result.screenshotUrl ?? null,
+            screenshotFile: null,
+            elapsedMs: Date.now() - startedAtMs,
+          };
+          outputs.push(output);
+          if (download) {
+            output.file = await downloadFile(
+              result.videoUrl,
+              format,
+              format === "video" ? ".mp4" : ".webp",
+              entry.id
+            );
+            // Video and sprite renders show the same build - keep one screenshot
+            if (result.screenshotUrl && !screenshotClaimed) {
+              screenshotClaimed = true;
+              output.screenshotFile = await downloadFile(
+                result.screenshotUrl,
+                "screenshot",
+                ".png",
+                entry.id
+              );
+            }
+          }
+        } catch (error) {
+          errors.push(describeFailure(format, error));
+        }
+      })
+    );
+
+    return {
+      id: entry.id,
+      shareCode: entry.shareCode,
+      status: errors.length === 0 ? "succeeded" : "failed",
+      outputs,
+      errors,
+    };
+  };
+
+  const results = await Promise.all(
+    entries.map(async (entry) => {
+      const result = await renderEntry(entry);
+      completed += 1;
+      onProgress?.({ type: "entry", result, completed, total: entries.length });
+      return result;
+    })
+  );
+
+  const succeeded = results.filter((result) => result.status === "succeeded").length;
+  return {
+    startedAt,
+    finishedAt: new Date().toISOString(),
+    baseUrl: config.baseUrl,
+    environment: config.environment,
+    total: results.length,
+    succeeded,
+    failed: results.length - succeeded,
+    results,
+  };
+};
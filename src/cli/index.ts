@@ -0,0 +1,222 @@
+import { ApiConfig } from "../types";
+import { RenderOutputFormat, parseManifest } from "./manifest";
+import { RenderBatchProgressEvent, runRenderBatch } from "./batch";
+import { NodeProcess, loadNodeRuntime } from "./node";
+
+const USAGE = `Usage: buildcores-render <manifest.json|manifest.csv> [options]
+
+Render every build in a manifest and download the results.
+
+Options:
+  -o, --out <dir>          Output directory (default: ./renders)
+  -c, --concurrency <n>    Render jobs in flight at once (default: 4)
+  -f, --formats <list>     Default outputs, comma-separated: video,sprite (default: video)
+      --api-key <key>      Render API key (default: $BUILDCORES_API_KEY)
+      --environment <env>  staging or prod
+      --base-url <url>     Render API base URL, e.g. a local stand-in API
+      --timeout <seconds>  Per-job timeout (default: 300)
+      --report <file>      Results report path (default: <out>/report.json)
+      --no-download        Only report the rendered URLs
+  -h, --help               Show this help
+`;
+
+interface CliOptions {
+  manifest: string;
+  out: string;
+  concurrency: number;
+  formats: RenderOutputFormat[];
+  apiKey?: string;
+  environment?: "staging" | "prod";
+  baseUrl?: string;
+  timeoutSeconds: number;
+  report?: string;
+  download: boolean;
+}
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+const parsePositiveInteger = (flag: string, value: string): number => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    throw new UsageError(`${flag} must be a positive integer`);
+  }
+  return number;
+};
+
+// Parse argv; returns null when help was requested
+const parseArgs = (args: string[], env: NodeProcess["env"]): CliOptions | null => {
+  const options: Partial<CliOptions> = {
+    out: "renders",
+    concurrency: 4,
+    formats: ["video"],
+    apiKey: env.BUILDCORES_API_KEY,
+    timeoutSeconds: 300,
+    download: true,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    // Accept --flag=value as well as --flag value
+    const [flag, inlineValue] = arg.startsWith("--") ? arg.split(/=(.*)/s) : [arg];
+    const value = () => {
+      const next = inlineValue ?? args[++i];
+      if (next === undefined) throw new UsageError(`${flag} needs a value`);
+      return next;
+    };
+
+    switch (flag) {
+      case "-h":
+      case "--help":
+        return null;
+      case "-o":
+      case "--out":
+        options.out = value();
+        break;
+      case "-c":
+      case "--concurrency":
+        options.concurrency = parsePositiveInteger(flag, value());
+        break;
+      case "-f":
+      case "--formats": {
+        const formats = value().split(",").map((format) => format.trim());
+        if (formats.some((format) => format !== "video" && format !== "sprite")) {
+          throw new UsageError(`${flag} accepts video and sprite`);
+        }
+        options.formats = formats as RenderOutputFormat[];
+        break;
+      }
+      case "--api-key":
+        options.apiKey = value();
+        break;
+      case "--environment": {
+        const environment = value();
+        if (environment !== "staging" && environment !== "prod") {
+          throw new UsageError("--environment must be staging or prod");
+        }
+        options.environment = environment;
+        break;
+      }
+      case "--base-url":
+        options.baseUrl = value().replace(/\/+$/, "");
+        break;
+      case "--timeout":
+        options.timeoutSeconds = parsePositiveInteger(flag, value());
+        break;
+      case "--report":
+        options.report = value();
+        break;
+      case "--no-download":
+        options.download = false;
+        break;
+      default:
+        if (flag.startsWith("-")) throw new UsageError(`Unknown option ${flag}`);
+        if (options.manifest) throw new UsageError("Only one manifest can be rendered at a time");
+        options.manifest = arg;
+    }
+  }
+
+  if (!options.manifest) throw new UsageError("Missing manifest file");
+  return options as CliOptions;
+};
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+/**
+ * Run the `buildcores-render` command with the given arguments (without the
+ * node and script paths). Resolves with the process exit code: 0 when every
+ * build rendered, 1 when some failed, 2 for usage and manifest errors.
+ */
+const runCli = async (args: string[]): Promise<number> => {
+  const { fs, path, process } = await loadNodeRuntime();
+  const log = (line: string) => process.stderr.write(`${line}\n`);
+
+  let options: CliOptions | null;
+  try {
+    options = parseArgs(args, process.env);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    log(`${error.message}\n\n${USAGE}`);
+    return 2;
+  }
+  if (!options) {
+    process.stdout.write(USAGE);
+    return 0;
+  }
+
+  let entries;
+  try {
+    const manifestPath = path.resolve(options.manifest);
+    const type = path.extname(manifestPath).toLowerCase() === ".csv" ? "csv" : "json";
+    entries = parseManifest(await fs.readFile(manifestPath, "utf8"), type, options.formats);
+  } catch (error) {
+    log(`Could not read manifest ${options.manifest}: ${(error as Error).message}`);
+    return 2;
+  }
+  if (!options.apiKey && !options.baseUrl) {
+    log("No API key - pass --api-key or set BUILDCORES_API_KEY");
+    return 2;
+  }
+
+  const outDir = path.resolve(options.out);
+  await fs.mkdir(outDir, { recursive: true });
+  const config: ApiConfig = {
+    authToken: options.apiKey,
+    environment: options.environment,
+    baseUrl: options.baseUrl,
+  };
+
+  const width = String(entries.length).length;
+  const onProgress = (event: RenderBatchProgressEvent) => {
+    if (event.type === "status") {
+      log(`  ${event.entry.id} ${event.format}: ${event.status} (${formatSeconds(event.elapsedMs)})`);
+      return;
+    }
+    const { result, completed, total } = event;
+    const counter = `[${String(completed).padStart(width)}/${total}]`;
+    if (result.status === "succeeded") {
+      const files = result.outputs.map((output) => output.file ?? output.url).join(", ");
+      log(`${counter} ${result.id} done: ${files}`);
+    } else {
+      const reasons = result.errors.map((failure) => `${failure.format}: ${failure.message}`).join("; ");
+      log(`${counter} ${result.id} FAILED - ${reasons}`);
+    }
+  };
+
+  log(`Rendering ${entries.length} builds, ${options.concurrency} at a time, into ${outDir}`);
+  const report = await runRenderBatch(entries, {
+    config,
+    outDir,
+    concurrency: options.concurrency,
+    timeoutMs: options.timeoutSeconds * 1000,
+    download: options.download,
+    onProgress,
+    fs,
+    path,
+  });
+
+  const reportPath = path.resolve(options.report ?? path.join(outDir, "report.json"));
+  await fs.writeFile(reportPath, `${JSON.stringify(report, null, 2)}\n`);
+  log(
+    `Rendered ${report.succeeded}/${report.total} builds` +
+      (report.failed > 0 ? ` (${report.failed} failed)` : "") +
+      ` - report: ${path.relative(process.cwd(), reportPath) || reportPath}`
+  );
+  return report.failed > 0 ? 1 : 0;
+};
+
+const main = async () => {
+  const { process } = await loadNodeRuntime();
+  try {
+    process.exitCode = await runCli(process.argv.slice(2));
+  } catch (error) {
+    console.error(error);
+    process.exitCode = 1;
+  }
+};
+
+main();
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { ManifestError, parseManifest } from "./manifest";
+
+describe("parseManifest", () => {
+  it("reads CSV rows with quoting, typed options and part columns", () => {
+    const csv = [
+      "id,share_code,CPU,GPU,formats,width,height,showGrid,gridSettings",
+      'hero,abc123xyz,,,video|sprite,1920,1080,yes,"{""color"":""#6f6f6f""}"',
+      ",,cpu-1,gpu-1,,,,,",
+      "",
+    ].join("\r\n");
+
+    expect(parseManifest(csv, "csv")).toEqual([
+      {
+        id: "hero",
+        shareCode: "abc123xyz",
+        parts: undefined,
+        formats: ["video", "sprite"],
+        options: { width: 1920, height: 1080, showGrid: true, gridSettings: { color: "#6f6f6f" } },
+      },
+      {
+        id: "build-2",
+        shareCode: undefined,
+        parts: { CPU: ["cpu-1"], GPU: ["gpu-1"] },
+        formats: ["video"],
+        options: {},
+      },
+    ]);
+  });
+
+  it("applies JSON defaults and keeps entry IDs unique and directory-safe", () => {
+    const json = JSON.stringify({
+      defaults: { scene: "studio", formats: ["sprite"] },
+      builds: [
+        { id: "my build/1", shareCode: "abc" },
+        { id: "my build/1", parts: { GPU: "gpu-1" }, scene: "desk" },
+      ],
+    });
+
+    const entries = parseManifest(json, "json");
+
+    expect(entries.map(({ id }) => id)).toEqual(["my-build-1", "my-build-1-2"]);
+    expect(entries.map(({ options }) => options.scene)).toEqual(["studio", "desk"]);
+    expect(entries[1].parts).toEqual({ GPU: ["gpu-1"] });
+    expect(entries[1].formats).toEqual(["sprite"]);
+  });
+
+  it("reports the entry number of invalid entries", () => {
+    const csv = "shareCode,width\nabc,1920\ndef,wide\n";
+
+    expect(() => parseManifest(csv, "csv")).toThrow(
+      new ManifestError('width must be a number, got "wide"', 2)
+    );
+    expect(() => parseManifest('[{"shareCode":"abc","formats":"gif"}]', "json")).toThrow(
+      /Entry 1: unknown format "gif"/
+    );
+    expect(() => parseManifest('[{"id":"empty"}]', "json")).toThrow(/needs a shareCode or at least one part/);
+    expect(() => parseManifest('{"builds":{}}', "json")).toThrow(ManifestError);
+  });
+});
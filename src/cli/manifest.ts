@@ -0,0 +1,237 @@
+import { PartCategory, RenderBuildRequest, RenderByShareCodeJobOptions } from "../types";
+import { RENDER_OPTION_KEYS } from "../requestSerializer";
+
+export type RenderOutputFormat = "video" | "sprite";
+
+/** Render options a manifest entry may set - everything but `format` */
+export type ManifestRenderOptions = Omit<RenderByShareCodeJobOptions, "format" | "signal">;
+
+/**
+ * One build to render, from a manifest row or object
+ */
+export interface ManifestEntry {
+  /** Name of the entry's output directory and report row */
+  id: string;
+  /** Share code of an existing build */
+  shareCode?: string;
+  /** Parts of a build to render, when there is no share code */
+  parts?: RenderBuildRequest["parts"];
+  /** Outputs to render for this build */
+  formats: RenderOutputFormat[];
+  options: ManifestRenderOptions;
+}
+
+/**
+ * Thrown when a manifest cannot be read; `entry` is the 1-based entry number
+ * (the data row for CSV)
+ */
+export class ManifestError extends Error {
+  readonly entry?: number;
+
+  constructor(message: string, entry?: number) {
+    super(entry === undefined ? message : `Entry ${entry}: ${message}`);
+    this.name = "ManifestError";
+    this.entry = entry;
+  }
+}
+
+const NUMBER_OPTIONS = new Set(["width", "height", "cameraOffsetX", "cameraZoom"]);
+const BOOLEAN_OPTIONS = new Set(["showGrid", "showBackground", "winterMode", "springMode"]);
+const OPTION_KEYS = RENDER_OPTION_KEYS.filter((key) => key !== "format");
+const PART_CATEGORIES = Object.values(PartCategory) as string[];
+
+// Split a CSV document into rows of fields (RFC 4180 quoting)
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+};
+
+const parseFormats = (value: unknown, fallback: RenderOutputFormat[], entry: number) => {
+  if (value === undefined || value === "") return fallback;
+  const list = Array.isArray(value) ? value : String(value).split(/[|;\s]+/);
+  const formats = list.map((format) => String(format).trim()).filter(Boolean);
+  for (const format of formats) {
+    if (format !== "video" && format !== "sprite") {
+      throw new ManifestError(`unknown format "${format}" (expected video or sprite)`, entry);
+    }
+  }
+  return [...new Set(formats)] as RenderOutputFormat[];
+};
+
+// CSV cells are strings - convert the typed options, keep JSON values as they are
+const coerceOption = (key: string, value: unknown, entry: number): unknown => {
+  if (typeof value !== "string") return value;
+  const text = value.trim();
+  if (NUMBER_OPTIONS.has(key)) {
+    const number = Number(text);
+    if (text === "" || !Number.isFinite(number)) {
+      throw new ManifestError(`${key} must be a number, got "${value}"`, entry);
+    }
+    return number;
+  }
+  if (BOOLEAN_OPTIONS.has(key)) {
+    if (/^(true|yes|1)$/i.test(text)) return true;
+    if (/^(false|no|0)$/i.test(text)) return false;
+    throw new ManifestError(`${key} must be true or false, got "${value}"`, entry);
+  }
+  if (key === "gridSettings") {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new ManifestError("gridSettings must be a JSON object", entry);
+    }
+  }
+  return text;
+};
+
+const toEntry = (
+  source: Record<string, unknown>,
+  defaults: Record<string, unknown>,
+  defaultFormats: RenderOutputFormat[],
+  entry: number
+): Omit<ManifestEntry, "id"> & { id?: string } => {
+  const merged = { ...defaults, ...source };
+  const options: Record<string, unknown> = {};
+  for (const key of OPTION_KEYS) {
+    const value = merged[key];
+    if (value !== undefined && value !== "") options[key] = coerceOption(key, value, entry);
+  }
+
+  // Parts as { parts: { CPU: "id" | ["id"] } }, or as category columns in CSV
+  const partsSource = (
+    merged.parts && typeof merged.parts === "object" ? merged.parts : merged
+  ) as Record<string, unknown>;
+  const parts: RenderBuildRequest["parts"] = {};
+  for (const category of PART_CATEGORIES) {
+    const ids = partsSource[category];
+    if (ids === undefined || ids === "") continue;
+    const list = (Array.isArray(ids) ? ids : String(ids).split("|"))
+      .map((id) => String(id).trim())
+      .filter(Boolean);
+    if (list.length > 0) parts[category as PartCategory] = list;
+  }
+
+  const shareCode = typeof merged.shareCode === "string" ? merged.shareCode.trim() : "";
+  const hasParts = Object.keys(parts).length > 0;
+  if (!shareCode && !hasParts) {
+    throw new ManifestError("needs a shareCode or at least one part", entry);
+  }
+
+  const id = merged.id === undefined || merged.id === "" ? undefined : String(merged.id);
+  return {
+    id,
+    shareCode: shareCode || undefined,
+    parts: shareCode ? undefined : parts,
+    formats: parseFormats(merged.formats, defaultFormats, entry),
+    options: options as ManifestRenderOptions,
+  };
+};
+
+// Directory-safe, unique entry IDs
+const assignIds = (entries: Array<Omit<ManifestEntry, "id"> & { id?: string }>): ManifestEntry[] => {
+  const used = new Set<string>();
+  return entries.map((entry, index) => {
+    const base =
+      (entry.id ?? entry.shareCode ?? `build-${index + 1}`)
+        .replace(/[^A-Za-z0-9._-]+/g, "-")
+        .replace(/^[-.]+|-+$/g, "") || `build-${index + 1}`;
+    let id = base;
+    for (let suffix = 2; used.has(id); suffix++) id = `${base}-${suffix}`;
+    used.add(id);
+    return { ...entry, id };
+  });
+};
+
+/**
+ * Parse a render manifest.
+ *
+ * JSON manifests are an array of entries, or `{ defaults, builds }` where
+ * `defaults` applies to every build. An entry has a `shareCode` or `parts`
+ * (category to part ID), optional `id` and `formats`, and any render options.
+ *
+ * CSV manifests have a header row with `id`, `shareCode`, `formats`
+ * (e.g. `video|sprite`), one column per part category and render option
+ * columns. Values in the category columns are part IDs.
+ *
+ * @example
+ * ```tsx
+ * parseManifest('shareCode,scene,formats\nabc123xyz,studio,video|sprite\n', 'csv');
+ * // => [{ id: 'abc123xyz', shareCode: 'abc123xyz', formats: ['video', 'sprite'], options: { scene: 'studio' } }]
+ * ```
+ */
+export const parseManifest = (
+  text: string,
+  type: "json" | "csv",
+  defaultFormats: RenderOutputFormat[] = ["video"]
+): ManifestEntry[] => {
+  if (type === "csv") {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) throw new ManifestError("CSV manifest is empty");
+    const columns = header.map((column) => column.trim());
+    return assignIds(
+      rows.map((cells, index) => {
+        const source: Record<string, unknown> = {};
+        columns.forEach((column, columnIndex) => {
+          if (column === "share_code") source.shareCode = cells[columnIndex];
+          else source[column] = cells[columnIndex];
+        });
+        return toEntry(source, {}, defaultFormats, index + 1);
+      })
+    );
+  }
+
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (error) {
+    throw new ManifestError(`Invalid JSON: ${(error as Error).message}`);
+  }
+  const { defaults = {}, builds } = Array.isArray(document)
+    ? { builds: document }
+    : ((document ?? {}) as { defaults?: Record<string, unknown>; builds?: unknown });
+  if (!Array.isArray(builds)) {
+    throw new ManifestError('JSON manifest must be an array or an object with a "builds" array');
+  }
+  return assignIds(
+    builds.map((build, index) => {
+      if (!build || typeof build !== "object") {
+        throw new ManifestError("must be an object", index + 1);
+      }
+      return toEntry(build as Record<string, unknown>, defaults, defaultFormats, index + 1);
+    })
+  );
+};
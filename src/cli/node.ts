@@ -0,0 +1,49 @@
+// Minimal shapes of the Node built-ins the CLI uses - the package does not
+// depend on @types/node
+
+export interface NodeFs {
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string | Uint8Array): Promise<void>;
+  mkdir(path: string, options: { recursive: true }): Promise<unknown>;
+}
+
+export interface NodePath {
+  join(...segments: string[]): string;
+  resolve(...segments: string[]): string;
+  relative(from: string, to: string): string;
+  extname(path: string): string;
+}
+
+export interface NodeWritable {
+  write(chunk: string): boolean;
+  isTTY?: boolean;
+}
+
+export interface NodeProcess {
+  argv: string[];
+  env: Record<string, string | undefined>;
+  exitCode?: number;
+  cwd(): string;
+  stdout: NodeWritable;
+  stderr: NodeWritable;
+}
+
+export interface NodeRuntime {
+  fs: NodeFs;
+  path: NodePath;
+  process: NodeProcess;
+}
+
+/** @internal */
+export const loadNodeRuntime = async (): Promise<NodeRuntime> => {
+  // Variable specifiers keep the type checker from looking for Node typings
+  const fsModuleName = "node:fs/promises";
+  const pathModuleName = "node:path";
+  const processModuleName = "node:process";
+  const [fs, path, processModule] = await Promise.all([
+    import(/* @vite-ignore */ fsModuleName) as Promise<NodeFs>,
+    import(/* @vite-ignore */ pathModuleName) as Promise<NodePath>,
+    import(/* @vite-ignore */ processModuleName) as Promise<{ default: NodeProcess }>,
+  ]);
+  return { fs, path, process: processModule.default };
+};
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createRenderClient } from "./client";
+import { createMockRenderApi } from "./testing";
+import { RenderClientRequest } from "./types";
+
+describe("createRenderClient", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("runs every request through the interceptors", async () => {
+    const mock = createMockRenderApi();
+    const seen: string[] = [];
+    const client = createRenderClient({
+      baseUrl: "https://mock.local",
+      fetch: mock.fetch,
+      interceptors: {
+        request: [({ init }) => init.headers.set("X-Request-Source", "test")],
+        response: [(response, request) => void seen.push(`${response.status} ${request.url}`)],
+      },
+    });
+
+    await client.getBuildByShareCode("mock-build");
+
+    expect(mock.requests[0].headers.get("X-Request-Source")).toBe("test");
+    expect(seen).toEqual(["200 https://mock.local/build/mock-build"]);
+  });
+
+  it("keeps the method, headers and body of a Request input", async () => {
+    const mock = createMockRenderApi();
+    let intercepted: RenderClientRequest | undefined;
+    const client = createRenderClient({
+      fetch: mock.fetch,
+      interceptors: { request: [(request) => void (intercepted = request)] },
+    });
+
+    const response = await client.config.fetch!(
+      new Request("https://mock.local/parts", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: [mock.parts[0].id] }),
+      })
+    );
+
+    expect(intercepted?.init.method).toBe("POST");
+    expect(intercepted?.init.headers.get("Content-Type")).toBe("application/json");
+    expect((await response.json()).parts).toEqual([mock.parts[0]]);
+  });
+
+  it("intercepts URL requests in runtimes without a global Request", async () => {
+    vi.stubGlobal("Request", undefined);
+    let sent: { url: string; headers: Headers } | undefined;
+    const client = createRenderClient({
+      baseUrl: "https://mock.local",
+      fetch: async (input, init) => {
+        sent = { url: String(input), headers: new Headers(init?.headers) };
+        return Response.json({ shareCode: "mock-build" });
+      },
+      interceptors: { request: [({ init }) => init.headers.set("X-Request-Source", "test")] },
+    });
+
+    await client.getBuildByShareCode("mock-build");
+
+    expect(sent?.url).toBe("https://mock.local/build/mock-build");
+    expect(sent?.headers.get("X-Request-Source")).toBe("test");
+  });
+});
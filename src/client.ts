@@ -0,0 +1,160 @@
+import {
+  ApiConfig,
+  RenderClientConfig,
+  RenderClientRequest,
+  RenderOptionDefaults,
+  RenderRequestInterceptor,
+  RenderResponseInterceptor,
+} from "./types";
+import {
+  RenderAPIService,
+  createRenderBuildJob,
+  createRenderByShareCodeJob,
+  getAvailableParts,
+  iterateAvailableParts,
+  getAllAvailableParts,
+  getBuildByShareCode,
+  getPartsByIds,
+  getRenderBuildStatus,
+  getSpriteLayoutManifest,
+  markNotNetworkFailure,
+  renderBuild,
+  renderBuildExperimental,
+  renderByShareCode,
+  renderSpriteExperimental,
+} from "./api";
+
+/**
+ * Render API client bound to one configuration
+ */
+export interface RenderClient extends RenderAPIService {
+  /** Configuration used for every call, with the interceptors applied to its fetch */
+  readonly config: ApiConfig;
+  /** Render options applied to every render unless set per call */
+  readonly renderDefaults: RenderOptionDefaults;
+}
+
+/**
+ * Fill in render options the caller left unset (undefined) from the defaults
+ */
+export const applyRenderDefaults = <T extends object>(
+  defaults: RenderOptionDefaults | undefined,
+  values: T
+): T => {
+  if (!defaults) return values;
+  const merged: Record<string, unknown> = { ...defaults };
+  for (const [key, value] of Object.entries(values)) {
+    if (value !== undefined) merged[key] = value;
+  }
+  return merged as T;
+};
+
+// Wrap a fetch implementation so every call runs through the interceptors
+const createInterceptedFetch = (
+  baseFetch: typeof fetch | undefined,
+  requestInterceptors: RenderRequestInterceptor[],
+  responseInterceptors: RenderResponseInterceptor[]
+): typeof fetch => {
+  return async (input, init) => {
+    // A Request input carries its own method, headers, body and signal, with
+    // `init` overriding them - interceptors see the merged request. Runtimes
+    // without a global Request only ever pass URLs.
+    const original =
+      typeof Request !== "undefined" && input instanceof Request ? new Request(input, init) : null;
+    let request: RenderClientRequest = original
+      ? {
+          url: original.url,
+          init: {
+            ...init,
+            method: original.method,
+            headers: new Headers(original.headers),
+            body: original.body ? await original.arrayBuffer() : undefined,
+            signal: original.signal,
+            credentials: original.credentials,
+            redirect: original.redirect,
+          },
+        }
+      : { url: String(input), init: { ...init, headers: new Headers(init?.headers) } };
+    // An interceptor that throws has a bug - never retry it as a network failure
+    const runInterceptors = async (run: () => Promise<void>) => {
+      try {
+        await run();
+      } catch (error) {
+        markNotNetworkFailure(error);
+        throw error;
+      }
+    };
+
+    await runInterceptors(async () => {
+      for (const intercept of requestInterceptors) {
+        request = (await intercept(request)) ?? request;
+      }
+    });
+
+    let response = await (baseFetch ?? fetch)(request.url, request.init);
+    await runInterceptors(async () => {
+      for (const intercept of responseInterceptors) {
+        response = (await intercept(response, request)) ?? response;
+      }
+    });
+    return response;
+  };
+};
+
+/**
+ * Create a Render API client. Every method matches the standalone function
+ * of the same name, without the `config` argument.
+ *
+ * @example
+ * ```tsx
+ * const client = createRenderClient({
+ *   environment: 'prod',
+ *   authMode: 'session',
+ *   getRenderSessionToken: fetchRenderSessionToken,
+ *   renderDefaults: { scene: 'studio', showGrid: false },
+ *   interceptors: {
+ *     request: [({ init }) => init.headers.set('X-Request-Source', 'storefront')],
+ *   },
+ * });
+ *
+ * const build = await client.getBuildByShareCode('abc123xyz');
+ * const { videoUrl } = await client.renderByShareCode('abc123xyz', { format: 'sprite' });
+ * ```
+ */
+export const createRenderClient = (clientConfig: RenderClientConfig): RenderClient => {
+  const { interceptors, renderDefaults = {}, ...apiConfig } = clientConfig;
+  const requestInterceptors = interceptors?.request ?? [];
+  const responseInterceptors = interceptors?.response ?? [];
+
+  const config: ApiConfig =
+    requestInterceptors.length > 0 || responseInterceptors.length > 0
+      ? {
+          ...apiConfig,
+          fetch: createInterceptedFetch(apiConfig.fetch, requestInterceptors, responseInterceptors),
+        }
+      : apiConfig;
+
+  return {
+    config,
+    renderDefaults,
+    renderBuildExperimental: (request, options) =>
+      renderBuildExperimental(applyRenderDefaults(renderDefaults, request), config, options),
+    renderSpriteExperimental: (request, options) =>
+      renderSpriteExperimental(applyRenderDefaults(renderDefaults, request), config, options),
+    getSpriteLayoutManifest: (url, options) => getSpriteLayoutManifest(url, config, options),
+    createRenderBuildJob: (request, options) =>
+      createRenderBuildJob(applyRenderDefaults(renderDefaults, request), config, options),
+    getRenderBuildStatus: (jobId, options) => getRenderBuildStatus(jobId, config, options),
+    renderBuild: (request, options) =>
+      renderBuild(applyRenderDefaults(renderDefaults, request), config, options),
+    getAvailableParts: (category, options) => getAvailableParts(category, config, options),
+    iterateAvailableParts: (category, options) => iterateAvailableParts(category, config, options),
+    getAllAvailableParts: (category, options) => getAllAvailableParts(category, config, options),
+    getBuildByShareCode: (shareCode, options) => getBuildByShareCode(shareCode, config, options),
+    getPartsByIds: (partIds, options) => getPartsByIds(partIds, config, options),
+    createRenderByShareCodeJob: (shareCode, options) =>
+      createRenderByShareCodeJob(shareCode, config, applyRenderDefaults(renderDefaults, options ?? {})),
+    renderByShareCode: (shareCode, options) =>
+      renderByShareCode(shareCode, config, applyRenderDefaults(renderDefaults, options ?? {})),
+  };
+};
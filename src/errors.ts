@@ -0,0 +1,186 @@
+/**
+ * Context attached to every Render API error
+ */
+export interface RenderApiErrorDetails {
+  /** HTTP status code returned by the API, if the failure came from a response */
+  status?: number;
+  /** API endpoint path that was called (e.g. "/render-build") */
+  endpoint?: string;
+  /** Render job ID, when the failure relates to a job */
+  jobId?: string;
+  /** Build share code, when the failure relates to a share code */
+  shareCode?: string;
+  /** Parsed JSON error body returned by the server, or raw text if it was not JSON */
+  body?: unknown;
+}
+
+/**
+ * Base class for all errors thrown by the Render API functions.
+ *
+ * @example
+ * ```tsx
+ * try {
+ *   await renderByShareCode('abc123xyz', config);
+ * } catch (error) {
+ *   if (error instanceof RenderNotFoundError) {
+ *     showMessage('That build no longer exists');
+ *   } else if (error instanceof RenderApiError) {
+ *     console.error(error.status, error.endpoint, error.body);
+ *   }
+ * }
+ * ```
+ */
+export class RenderApiError extends Error {
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly jobId?: string;
+  readonly shareCode?: string;
+  readonly body?: unknown;
+
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message);
+    this.name = "RenderApiError";
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.jobId = details.jobId;
+    this.shareCode = details.shareCode;
+    this.body = details.body;
+  }
+}
+
+/**
+ * 400 Bad Request - malformed body, invalid dimensions or conflicting options
+ */
+export class RenderBadRequestError extends RenderApiError {
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderBadRequestError";
+  }
+}
+
+/**
+ * 401 Unauthorized - missing, invalid, expired or mismatched token.
+ * Also thrown when session auth is misconfigured on the client.
+ */
+export class RenderAuthError extends RenderApiError {
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderAuthError";
+  }
+}
+
+/**
+ * 403 Forbidden - session token does not have the required scope
+ */
+export class RenderScopeError extends RenderApiError {
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderScopeError";
+  }
+}
+
+/**
+ * 404 Not Found - part, build share code, render job or pregenerated render not found
+ */
+export class RenderNotFoundError extends RenderApiError {
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderNotFoundError";
+  }
+}
+
+/**
+ * 5xx - server-side error
+ */
+export class RenderServerError extends RenderApiError {
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderServerError";
+  }
+}
+
+/**
+ * Render job reached the "error" status, or completed without an asset URL
+ */
+export class RenderJobFailedError extends RenderApiError {
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderJobFailedError";
+  }
+}
+
+/**
+ * Render job did not complete within the polling timeout
+ */
+export class RenderTimeoutError extends RenderApiError {
+  constructor(message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderTimeoutError";
+  }
+}
+
+// Read the error body without throwing - prefer JSON, fall back to raw text
+const readErrorBody = async (response: Response): Promise<unknown> => {
+  try {
+    const text = await response.text();
+    if (!text) return undefined;
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Build the typed error matching a failed response's HTTP status
+ * (see docs/technical/error-codes.md).
+ * @internal
+ */
+export const createResponseError = async (
+  response: Response,
+  message: string,
+  details: Omit<RenderApiErrorDetails, "status" | "body"> = {}
+): Promise<RenderApiError> => {
+  const fullDetails: RenderApiErrorDetails = {
+    ...details,
+    status: response.status,
+    body: await readErrorBody(response),
+  };
+
+  switch (response.status) {
+    case 400:
+      return new RenderBadRequestError(message, fullDetails);
+    case 401:
+      return new RenderAuthError(message, fullDetails);
+    case 403:
+      return new RenderScopeError(message, fullDetails);
+    case 404:
+      return new RenderNotFoundError(message, fullDetails);
+    default:
+      if (response.status >= 500) {
+        return new RenderServerError(message, fullDetails);
+      }
+      return new RenderApiError(message, fullDetails);
+  }
+};
+
+/**
+ * Whether an error was caused by aborting a request through its `AbortSignal`.
+ *
+ * @example
+ * ```tsx
+ * try {
+ *   await renderBuild(request, config, { signal: controller.signal });
+ * } catch (error) {
+ *   if (isAbortError(error)) return; // superseded or unmounted
+ *   throw error;
+ * }
+ * ```
+ */
+export const isAbortError = (error: unknown): boolean =>
+  typeof error === "object" &&
+  error !== null &&
+  (error as { name?: unknown }).name === "AbortError";
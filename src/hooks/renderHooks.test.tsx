@@ -0,0 +1,169 @@
+// @vitest-environment jsdom
+import React, { act } from "react";
+import { createRoot, Root } from "react-dom/client";
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockRenderApi, MockRenderApiOptions } from "../testing";
+import { ApiConfig, PartCategory } from "../types";
+import { BuildRenderInput, useBuildRender } from "./useBuildRender";
+import { SpriteRenderInput, UseSpriteRenderReturn, useSpriteRender } from "./useSpriteRender";
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const mounted: { root: Root; container: HTMLElement }[] = [];
+
+afterEach(() => {
+  mounted.splice(0).forEach(({ root, container }) => {
+    act(() => root.unmount());
+    container.remove();
+  });
+});
+
+// Minimal renderHook: renders `useHook(props)` and records every result
+const renderHook = async <P, R>(useHook: (props: P) => R, initialProps: P) => {
+  const results: R[] = [];
+  const Probe = ({ props }: { props: P }) => {
+    results.push(useHook(props));
+    return null;
+  };
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  const root = createRoot(container);
+  mounted.push({ root, container });
+  await act(async () => root.render(<Probe props={initialProps} />));
+  return {
+    results,
+    current: () => results[results.length - 1],
+    rerender: (props: P) => act(async () => root.render(<Probe props={props} />)),
+  };
+};
+
+const waitFor = async (condition: () => boolean, timeoutMs = 2000) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error("Timed out waiting for condition");
+    await act(() => new Promise((resolve) => setTimeout(resolve, 5)));
+  }
+};
+
+const setup = (options?: MockRenderApiOptions) => {
+  const mock = createMockRenderApi({
+    lifecycle: [{ status: "completed" }],
+    assetUrl: (job) => `https://cdn.mock/${job.jobId}`,
+    ...options,
+  });
+  const config: ApiConfig = { baseUrl: "https://mock.local", authToken: "test", fetch: mock.fetch };
+  const inputFor = (index: number): SpriteRenderInput & BuildRenderInput => ({
+    type: "parts",
+    parts: { parts: { [PartCategory.CPU]: [mock.parts[index].id] } },
+  });
+  // Job rendering the input of `inputFor(index)`
+  const jobFor = (index: number) =>
+    [...mock.jobs.values()].find((job) =>
+      JSON.stringify(job.request).includes(`"${mock.parts[index].id}"`)
+    );
+  return { mock, config, inputFor, jobFor };
+};
+
+// Creating the job for the first part takes `delayMs`
+const slowFirstPart = (delayMs: number): MockRenderApiOptions => ({
+  delayMs: ({ method, body }) =>
+    method === "POST" && JSON.stringify(body).includes('"mock-cpu-1"') ? delayMs : 0,
+});
+
+const sleep = (ms: number) => act(() => new Promise<void>((resolve) => setTimeout(resolve, ms)));
+
+describe("useSpriteRender", () => {
+  it("enters validating once per debounced render", async () => {
+    const { mock, config, inputFor } = setup();
+    const useRender = (input: SpriteRenderInput): UseSpriteRenderReturn =>
+      useSpriteRender(input, config, undefined, { cache: false, scheduler: false, debounceMs: 40 });
+    const hook = await renderHook(useRender, inputFor(0));
+    await waitFor(() => hook.current().status === "loading-asset");
+    const seen = hook.results.length;
+    const previousValidating = hook.current().timestamps.validating;
+
+    await hook.rerender(inputFor(1));
+    await waitFor(() => mock.jobs.size === 2 && hook.current().status === "loading-asset");
+
+    const validatingTimes = new Set(
+      hook.results
+        .slice(seen)
+        .map(({ timestamps }) => timestamps.validating)
+        .filter((time) => time !== previousValidating)
+    );
+    const { timestamps } = hook.current();
+    expect(validatingTimes.size).toBe(1);
+    // The timeline starts when the input changed, not when the debounce fired
+    expect(timestamps.submitting! - timestamps.validating!).toBeGreaterThanOrEqual(35);
+  });
+
+  it("keeps the latest input's render when an earlier one finishes last", async () => {
+    const { config, inputFor, jobFor } = setup(slowFirstPart(80));
+    const hook = await renderHook(
+      (input: SpriteRenderInput) => useSpriteRender(input, config, undefined, { cache: false, scheduler: false }),
+      inputFor(0)
+    );
+
+    await hook.rerender(inputFor(1));
+    await waitFor(() => hook.current().spriteSrc !== null);
+    await sleep(120);
+
+    expect(hook.current().spriteSrc).toBe(`https://cdn.mock/${jobFor(1)?.jobId}`);
+    expect(hook.current().jobId).toBe(jobFor(1)?.jobId);
+  });
+
+  it("submits only the settled input when debouncing", async () => {
+    const { mock, config, inputFor, jobFor } = setup();
+    const hook = await renderHook(
+      (input: SpriteRenderInput) =>
+        useSpriteRender(input, config, undefined, { cache: false, scheduler: false, debounceMs: 30 }),
+      inputFor(0)
+    );
+    await waitFor(() => hook.current().spriteSrc !== null);
+
+    await hook.rerender(inputFor(1));
+    await hook.rerender(inputFor(2));
+    expect(hook.current().status).toBe("validating");
+    await hook.rerender(inputFor(3));
+    await waitFor(() => hook.current().spriteSrc === `https://cdn.mock/${jobFor(3)?.jobId}`);
+
+    expect(mock.jobs.size).toBe(2);
+    expect(jobFor(1)).toBeUndefined();
+    expect(jobFor(2)).toBeUndefined();
+  });
+});
+
+describe("useBuildRender", () => {
+  it("keeps the latest input's render when an earlier one finishes last", async () => {
+    const { config, inputFor, jobFor } = setup(slowFirstPart(80));
+    const hook = await renderHook(
+      (input: BuildRenderInput) => useBuildRender(input, config, undefined, { cache: false, scheduler: false }),
+      inputFor(0)
+    );
+
+    await hook.rerender(inputFor(1));
+    await waitFor(() => hook.current().videoSrc !== null);
+    await sleep(120);
+
+    expect(hook.current().videoSrc).toBe(`https://cdn.mock/${jobFor(1)?.jobId}`);
+    expect(hook.current().isRenderingBuild).toBe(false);
+  });
+
+  it("reports rendering while a debounced input settles, then submits it once", async () => {
+    const { mock, config, inputFor, jobFor } = setup();
+    const hook = await renderHook(
+      (input: BuildRenderInput) =>
+        useBuildRender(input, config, undefined, { cache: false, scheduler: false, debounceMs: 30 }),
+      inputFor(0)
+    );
+    await waitFor(() => hook.current().videoSrc !== null);
+
+    await hook.rerender(inputFor(1));
+    expect(hook.current().isRenderingBuild).toBe(true);
+    await hook.rerender(inputFor(2));
+    await waitFor(() => hook.current().videoSrc === `https://cdn.mock/${jobFor(2)?.jobId}`);
+
+    expect(hook.current().isRenderingBuild).toBe(false);
+    expect(mock.jobs.size).toBe(2);
+  });
+});
@@ -1,6 +1,22 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { RenderBuildRequest, PartCategory, ApiConfig } from "../types";
-import { renderBuild, renderBuildExperimental } from "../api";
+import {
+  RenderBuildRequest,
+  PartCategory,
+  ApiConfig,
+  RenderJobStatusEvent,
+  RenderJobPersistenceOptions,
+  RenderCache,
+  RenderScheduler,
+  ResolvedRender,
+} from "../types";
+import { renderBuild, renderBuildExperimental, renderByShareCode } from "../api";
+import { defaultRenderCache } from "../renderCache";
+import { defaultRenderScheduler } from "../renderScheduler";
+import { canonicalizeRenderInput, createRenderKey } from "../renderKey";
+import { isAbortError } from "../errors";
+import { assertValidRenderRequest } from "../validation";
+import { matchesInitialRender, toRenderRequest } from "../prerender";
+import type { SpriteRenderInput } from "./useSpriteRender";
 
 /**
  * Compares two RenderBuildRequest objects for equality by checking if the same IDs
@@ -39,10 +55,25 @@ export const arePartsEqual = (
   return true;
 };
 
+/**
+ * Input for video rendering - either parts (creates new build) or shareCode
+ * (uses existing build, including its case fan placements). Same shape as
+ * `SpriteRenderInput` without the sprite-only `frameQuality`.
+ */
+export type BuildRenderInput =
+  | Omit<Extract<SpriteRenderInput, { type: "parts" }>, "frameQuality">
+  | Omit<Extract<SpriteRenderInput, { type: "shareCode" }>, "frameQuality">;
+
 export interface UseBuildRenderReturn {
   videoSrc: string | null;
   isRenderingBuild: boolean;
   renderError: string | null;
+  /**
+   * The typed error behind `renderError`. API failures are `RenderApiError`
+   * subclasses (e.g. `RenderNotFoundError`, `RenderTimeoutError`) carrying
+   * the HTTP status, endpoint, job ID and server error body.
+   */
+  error: Error | null;
 }
 
 export interface UseBuildRenderOptions {
@@ -50,31 +81,157 @@ export interface UseBuildRenderOptions {
    * Choose which backend flow to use
    * - 'async' (default): uses /render-build and polls /render-build/{jobId}
    * - 'experimental': uses /render-build-experimental and returns Blob
+   *
+   * Share codes always use the async flow.
    */
   mode?: "async" | "experimental";
+  /**
+   * Called with the job creation response and every status poll
+   * (async mode and share codes only)
+   */
+  onStatus?: (event: RenderJobStatusEvent) => void;
+  /**
+   * Persist pending job IDs so a reload or remount resumes polling the same
+   * job instead of submitting a new one (async mode and share codes only).
+   * `true` uses sessionStorage.
+   */
+  jobPersistence?: RenderJobPersistenceOptions | boolean;
+  /**
+   * Cache of finished video renders (async mode and share codes only). A cached build is shown
+   * immediately without submitting a job. Defaults to a shared in-memory
+   * cache; `false` disables caching.
+   */
+  cache?: RenderCache | false;
+  /**
+   * Scheduler that limits concurrent render jobs and shares one job between
+   * identical requests (async mode and share codes only). Defaults to a shared scheduler with
+   * 4 concurrent jobs; `false` submits immediately.
+   */
+  scheduler?: RenderScheduler | false;
+  /**
+   * Queue priority while waiting for the scheduler - higher runs first.
+   * Raise it for viewers that are on screen; changes apply to a queued render.
+   */
+  priority?: number;
+  /**
+   * Video resolved ahead of time with `resolveRender(input, config, { format: 'video' })`.
+   * While its render key matches the input, it is used as the result without
+   * any API calls - including on the first render.
+   */
+  initialRender?: ResolvedRender;
+  /**
+   * Wait until the parts have not changed for this many milliseconds before
+   * submitting them. The first parts are submitted right away; a render still
+   * running for superseded parts is cancelled as soon as they change.
+   * `isRenderingBuild` is true while waiting. Default: 0
+   */
+  debounceMs?: number;
 }
 
+// Render options are part of the comparison, so a changed scene or camera
+// renders again even when the parts are the same
+const areBuildInputsEqual = (
+  a: RenderBuildRequest | BuildRenderInput,
+  b: RenderBuildRequest | BuildRenderInput
+): boolean =>
+  canonicalizeRenderInput(toRenderRequest(a, "video")) ===
+  canonicalizeRenderInput(toRenderRequest(b, "video"));
+
+/**
+ * Render a build to an MP4 for `BuildRenderVideo`. Accepts a parts request,
+ * or a `BuildRenderInput` to render an existing build by share code with
+ * `renderByShareCode` and `format: "video"`.
+ *
+ * @example
+ * ```tsx
+ * const { videoSrc, isRenderingBuild } = useBuildRender(
+ *   { type: 'shareCode', shareCode: 'abc123xyz', scene: 'studio' },
+ *   apiConfig
+ * );
+ * ```
+ */
 export const useBuildRender = (
-  parts: RenderBuildRequest,
+  input: RenderBuildRequest | BuildRenderInput,
   apiConfig: ApiConfig,
   onLoadStart?: () => void,
   options?: UseBuildRenderOptions
 ): UseBuildRenderReturn => {
-  const [videoSrc, setVideoSrc] = useState<string | null>(null);
+  const [videoSrc, setVideoSrc] = useState<string | null>(() => {
+    const initialRender = options?.initialRender;
+    if (!initialRender) return null;
+    return matchesInitialRender(initialRender, "video", toRenderRequest(input, "video"), apiConfig)
+      ? initialRender.url
+      : null;
+  });
   const [isRenderingBuild, setIsRenderingBuild] = useState(false);
   const [renderError, setRenderError] = useState<string | null>(null);
-  const previousPartsRef = useRef<RenderBuildRequest | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const previousInputRef = useRef<RenderBuildRequest | BuildRenderInput | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Incremented by every request; only the latest one may commit its result
+  const requestSequenceRef = useRef(0);
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Keep the latest callback without re-triggering renders when it changes identity
+  const onStatusRef = useRef(options?.onStatus);
+  onStatusRef.current = options?.onStatus;
+  const jobPersistenceRef = useRef(options?.jobPersistence);
+  jobPersistenceRef.current = options?.jobPersistence;
+  const cacheRef = useRef(options?.cache);
+  cacheRef.current = options?.cache;
+  const schedulerRef = useRef(options?.scheduler);
+  schedulerRef.current = options?.scheduler;
+  const priorityRef = useRef(options?.priority);
+  priorityRef.current = options?.priority;
+  const initialRenderRef = useRef(options?.initialRender);
+  initialRenderRef.current = options?.initialRender;
+  // Key of the latest render, for priority updates while it is queued
+  const renderKeyRef = useRef<string | null>(null);
 
   const fetchRenderBuild = useCallback(
-    async (currentParts: RenderBuildRequest) => {
+    async (currentInput: RenderBuildRequest | BuildRenderInput) => {
+      // Cancel any render still in flight for the previous input
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+      const sequence = ++requestSequenceRef.current;
+      const isSuperseded = () => signal.aborted || sequence !== requestSequenceRef.current;
+
       try {
+        const target = toRenderRequest(currentInput, "video");
+        const renderKey = createRenderKey(target, apiConfig);
+        const initialRender = initialRenderRef.current;
+
+        // Rendered ahead of time - show it without touching the API
+        if (matchesInitialRender(initialRender, "video", target, apiConfig)) {
+          setRenderError(null);
+          setError(null);
+          setVideoSrc((prevSrc: string | null) => {
+            if (prevSrc && prevSrc.startsWith("blob:")) {
+              URL.revokeObjectURL(prevSrc);
+            }
+            return initialRender.url;
+          });
+          return;
+        }
+
         setIsRenderingBuild(true);
         setRenderError(null);
+        setError(null);
         onLoadStart?.();
 
-        const mode = options?.mode ?? "async";
-        if (mode === "experimental") {
-          const response = await renderBuildExperimental(currentParts, apiConfig);
+        // Fail fast on invalid options instead of spending a round-trip on a 400
+        assertValidRenderRequest(
+          target.type === "shareCode"
+            ? { shareCode: target.shareCode, ...target.options }
+            : target.request
+        );
+
+        // Share codes render the saved build - there is no experimental flow for them
+        const mode = target.type === "shareCode" ? "async" : options?.mode ?? "async";
+        if (mode === "experimental" && target.type === "parts") {
+          const response = await renderBuildExperimental(target.request, apiConfig, { signal });
+          if (isSuperseded()) return;
           const objectUrl = URL.createObjectURL(response.video);
           setVideoSrc((prevSrc: string | null) => {
             if (prevSrc && prevSrc.startsWith("blob:")) {
@@ -83,7 +240,30 @@ export const useBuildRender = (
             return objectUrl;
           });
         } else {
-          const { videoUrl } = await renderBuild(currentParts, apiConfig);
+          const cache =
+            cacheRef.current === false ? undefined : cacheRef.current ?? defaultRenderCache;
+          const scheduler =
+            schedulerRef.current === false ? undefined : schedulerRef.current ?? defaultRenderScheduler;
+          renderKeyRef.current = renderKey;
+          const pollingOptions = {
+            signal,
+            onStatus: (event: RenderJobStatusEvent) => {
+              if (!isSuperseded()) onStatusRef.current?.(event);
+            },
+            jobPersistence: jobPersistenceRef.current,
+            cache,
+            scheduler,
+            priority: priorityRef.current,
+          };
+          const { videoUrl } =
+            cache?.peek(renderKey) ??
+            (target.type === "shareCode"
+              ? await renderByShareCode(target.shareCode, apiConfig, {
+                  ...target.options,
+                  ...pollingOptions,
+                })
+              : await renderBuild(target.request, apiConfig, pollingOptions));
+          if (isSuperseded()) return;
           // Clean up previous object URL (if any) before setting new one
           setVideoSrc((prevSrc: string | null) => {
             if (prevSrc && prevSrc.startsWith("blob:")) {
@@ -92,28 +272,71 @@ export const useBuildRender = (
             return videoUrl;
           });
         }
-      } catch (error) {
-        setRenderError(
-          error instanceof Error ? error.message : "Failed to render build"
-        );
+      } catch (caught) {
+        // Superseded or unmounted - the newer render owns the state now
+        if (isSuperseded() || isAbortError(caught)) return;
+        const renderFailure =
+          caught instanceof Error ? caught : new Error("Failed to render build");
+        setRenderError(renderFailure.message);
+        setError(renderFailure);
       } finally {
-        setIsRenderingBuild(false);
+        if (!isSuperseded()) {
+          setIsRenderingBuild(false);
+        }
       }
     },
     [apiConfig, onLoadStart, options?.mode]
   );
 
-  // Effect to call API when parts content changes (using custom equality check)
+  const cancelPendingSubmit = () => {
+    if (debounceTimerRef.current !== null) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+  };
+
+  // Effect to call API when the input content changes (using custom equality check)
   useEffect(() => {
-    const shouldFetch =
-      previousPartsRef.current === null ||
-      !arePartsEqual(previousPartsRef.current, parts);
+    const previousInput = previousInputRef.current;
+    const isFirstInput = previousInput === null;
+    if (previousInput !== null && areBuildInputsEqual(previousInput, input)) return;
 
-    if (shouldFetch) {
-      previousPartsRef.current = parts;
-      fetchRenderBuild(parts);
+    previousInputRef.current = input;
+    cancelPendingSubmit();
+    const debounceMs = options?.debounceMs ?? 0;
+    if (isFirstInput || debounceMs <= 0) {
+      fetchRenderBuild(input);
+      return;
     }
-  }, [parts, fetchRenderBuild]);
+
+    // Drop the superseded render now; the timer lives in a ref so re-renders
+    // with an equal input keep it running
+    abortControllerRef.current?.abort();
+    requestSequenceRef.current++;
+    setIsRenderingBuild(true);
+    debounceTimerRef.current = setTimeout(() => {
+      debounceTimerRef.current = null;
+      fetchRenderBuild(input);
+    }, debounceMs);
+  }, [input, fetchRenderBuild]);
+
+  // Move a render that is still waiting for a scheduler slot when its priority changes
+  useEffect(() => {
+    const scheduler = options?.scheduler === false ? undefined : options?.scheduler ?? defaultRenderScheduler;
+    if (scheduler && renderKeyRef.current && options?.priority !== undefined) {
+      scheduler.prioritize(renderKeyRef.current, options.priority);
+    }
+  }, [options?.scheduler, options?.priority]);
+
+  // Abort any outstanding render on unmount (and forget the input so a
+  // StrictMode remount submits it again instead of waiting forever)
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      cancelPendingSubmit();
+      previousInputRef.current = null;
+    };
+  }, []);
 
   // Cleanup effect for component unmount
   useEffect(() => {
@@ -128,5 +351,6 @@ export const useBuildRender = (
     videoSrc,
     isRenderingBuild,
     renderError,
+    error,
   };
 };
@@ -0,0 +1,104 @@
+import { useState, useEffect, useRef } from "react";
+import { ApiConfig, PartDetailsWithCategory } from "../types";
+import { PartLoader, getDefaultPartLoader } from "../partLoader";
+
+export interface UsePartDetailsOptions {
+  /**
+   * Loader to batch and cache requests with. Defaults to a loader shared by
+   * every `usePartDetails` call given the same `apiConfig` object.
+   */
+  loader?: PartLoader;
+}
+
+export interface UsePartDetailsReturn {
+  /** Found parts, in the order of `ids` */
+  parts: PartDetailsWithCategory[];
+  /** Found parts by ID */
+  partsById: Record<string, PartDetailsWithCategory>;
+  /** Requested IDs the API returned no part for */
+  missingIds: string[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+const collectCached = (ids: string[], loader: PartLoader) => {
+  const parts: PartDetailsWithCategory[] = [];
+  const partsById: Record<string, PartDetailsWithCategory> = {};
+  const missingIds: string[] = [];
+  for (const id of new Set(ids)) {
+    const part = loader.peek(id);
+    if (part) {
+      parts.push(part);
+      partsById[id] = part;
+    } else if (loader.isMissing(id)) {
+      missingIds.push(id);
+    }
+  }
+  return { parts, partsById, missingIds };
+};
+
+const haveSameFields = (a: ApiConfig, b: ApiConfig) => {
+  const keys = Object.keys(a) as (keyof ApiConfig)[];
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+/**
+ * Load part details by ID. Requests from every component rendered together
+ * are batched into as few `POST /parts` calls as possible, and parts already
+ * loaded are returned immediately from the cache.
+ *
+ * @example
+ * ```tsx
+ * const { parts, missingIds, isLoading } = usePartDetails(['7xjqsomhr', 'z7pyphm9k'], apiConfig);
+ * ```
+ */
+export const usePartDetails = (
+  ids: string[],
+  apiConfig: ApiConfig,
+  options?: UsePartDetailsOptions
+): UsePartDetailsReturn => {
+  // An inline config is a new object every render - keep the previous one
+  // while its fields are unchanged, so the default loader stays the same
+  const apiConfigRef = useRef(apiConfig);
+  if (!haveSameFields(apiConfigRef.current, apiConfig)) apiConfigRef.current = apiConfig;
+  const loader = options?.loader ?? getDefaultPartLoader(apiConfigRef.current);
+  // Content key, so a new array with the same IDs does not reload
+  const idsKey = ids.join(",");
+
+  const [state, setState] = useState<UsePartDetailsReturn>(() => {
+    const cached = collectCached(ids, loader);
+    return {
+      ...cached,
+      isLoading: cached.parts.length + cached.missingIds.length < new Set(ids).size,
+      error: null,
+    };
+  });
+
+  useEffect(() => {
+    const requestedIds = idsKey ? idsKey.split(",") : [];
+    let cancelled = false;
+
+    const cached = collectCached(requestedIds, loader);
+    const complete =
+      cached.parts.length + cached.missingIds.length === new Set(requestedIds).size;
+    setState({ ...cached, isLoading: !complete, error: null });
+    if (complete) return;
+
+    loader.loadMany(requestedIds).then(
+      (result) => {
+        if (!cancelled) setState({ ...result, isLoading: false, error: null });
+      },
+      (caught) => {
+        if (cancelled) return;
+        const loadFailure = caught instanceof Error ? caught : new Error("Failed to load parts");
+        setState((previous) => ({ ...previous, isLoading: false, error: loadFailure }));
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [idsKey, loader]);
+
+  return state;
+};
@@ -1,17 +1,114 @@
 import { useState, useEffect, useCallback, useRef } from "react";
-import { RenderBuildRequest, ApiConfig } from "../types";
+import {
+  RenderBuildRequest,
+  ApiConfig,
+  RenderJobStatus,
+  RenderJobStatusEvent,
+  RenderJobPersistenceOptions,
+  RenderCache,
+  RenderScheduler,
+  ResolvedRender,
+  SpriteLayout,
+} from "../types";
 import { renderSpriteExperimental, renderBuild, renderByShareCode } from "../api";
+import { defaultRenderCache } from "../renderCache";
+import { defaultRenderScheduler } from "../renderScheduler";
+import { createRenderKey } from "../renderKey";
+import { isAbortError } from "../errors";
+import { assertValidRenderRequest } from "../validation";
 import { arePartsEqual } from "./useBuildRender";
+import { matchesInitialRender, spriteLayoutFor, toRenderRequest } from "../prerender";
+import {
+  SpriteLayoutError,
+  inferSpriteLayout,
+  parseSpriteLayout,
+  spriteLayoutFitsImage,
+} from "../spriteLayout";
+
+/**
+ * Lifecycle of a sprite render
+ * - idle: nothing requested yet
+ * - validating: checking the request before any network call
+ * - submitting: waiting for a scheduler slot and creating the render job
+ * - polling: job accepted, waiting on the render service (see `jobStatus`)
+ * - loading-asset: render finished, sprite sheet image is loading
+ * - ready: sprite sheet loaded and decoded
+ * - error: the render or the image download failed
+ */
+export type SpriteRenderStatus =
+  | "idle"
+  | "validating"
+  | "submitting"
+  | "polling"
+  | "loading-asset"
+  | "ready"
+  | "error";
+
+/**
+ * Current step of a sprite render
+ * - idle: nothing requested yet
+ * - submitting: creating the render job
+ * - queued / processing: job accepted, waiting on the render service
+ * - downloading: job completed, sprite sheet image is loading
+ * - ready: sprite sheet loaded and decoded
+ * - error: the render or the image download failed
+ *
+ * @deprecated Use `SpriteRenderStatus` - `phase` is derived from `status` and `jobStatus`
+ */
+export type SpriteRenderPhase =
+  | "idle"
+  | "submitting"
+  | "queued"
+  | "processing"
+  | "downloading"
+  | "ready"
+  | "error";
 
 export interface UseSpriteRenderReturn {
+  /** Where the current render is in its lifecycle */
+  status: SpriteRenderStatus;
+  /** Job of the current render, once the render service accepted it */
+  jobId: string | null;
+  /** Latest job status reported by the render service */
+  jobStatus: RenderJobStatus | null;
+  /**
+   * When the current render entered each status (ms since epoch). Reset when
+   * a new render starts, so `timestamps.ready - timestamps.validating` is the
+   * time to first frame.
+   */
+  timestamps: Partial<Record<SpriteRenderStatus, number>>;
+  /** Run the current input again, e.g. after an error */
+  retry: () => void;
+  /**
+   * Render the current input again even though it did not change, skipping
+   * the cached result and `initialRender`
+   */
+  refresh: () => void;
   spriteSrc: string | null;
+  /** The decoded sprite sheet, once `status` is "ready" */
+  spriteImage: HTMLImageElement | null;
+  /** True while validating, submitting or polling */
   isRenderingSprite: boolean;
+  /**
+   * Current step of the render, for progress indicators
+   *
+   * @deprecated Use `status` (and `jobStatus` for queued / processing)
+   */
+  phase: SpriteRenderPhase;
   renderError: string | null;
-  spriteMetadata: {
-    cols: number;
-    rows: number;
-    totalFrames: number;
-  } | null;
+  /**
+   * The typed error behind `renderError`. API failures are `RenderApiError`
+   * subclasses (e.g. `RenderNotFoundError`, `RenderTimeoutError`) carrying
+   * the HTTP status, endpoint, job ID and server error body. A sprite sheet
+   * that does not match its reported grid fails with `SpriteLayoutError`.
+   */
+  error: Error | null;
+  /**
+   * Grid of the sprite sheet: as reported by the render service (job
+   * status, sidecar manifest or `X-Sprite-*` headers), otherwise the grid
+   * for `frameQuality`, corrected from the image size once it has loaded
+   */
+  spriteMetadata: SpriteLayout | null;
 }
 
 export interface UseSpriteRenderOptions {
@@ -21,6 +118,48 @@ export interface UseSpriteRenderOptions {
    * - 'experimental': uses /render-build-experimental and returns Blob
    */
   mode?: "async" | "experimental";
+  /**
+   * Called with the job creation response and every status poll
+   * (async mode and share codes only)
+   */
+  onStatus?: (event: RenderJobStatusEvent) => void;
+  /**
+   * Persist pending job IDs so a reload or remount resumes polling the same
+   * job instead of submitting a new one (async mode and share codes only).
+   * `true` uses sessionStorage.
+   */
+  jobPersistence?: RenderJobPersistenceOptions | boolean;
+  /**
+   * Cache of finished sprite renders (async mode and share codes only). A cached
+   * input is shown immediately without submitting a job. Defaults to a
+   * shared in-memory cache; `false` disables caching.
+   */
+  cache?: RenderCache | false;
+  /**
+   * Scheduler that limits concurrent render jobs and shares one job between
+   * identical requests (async mode and share codes only). Defaults to a shared scheduler with
+   * 4 concurrent jobs; `false` submits immediately.
+   */
+  scheduler?: RenderScheduler | false;
+  /**
+   * Queue priority while waiting for the scheduler - higher runs first.
+   * Raise it for viewers that are on screen; changes apply to a queued render.
+   */
+  priority?: number;
+  /**
+   * Sprite sheet resolved ahead of time with `resolveRender`. While its render
+   * key matches the input, it is used as the result without any API calls -
+   * including on the first render, so server-rendered markup already has it.
+   */
+  initialRender?: ResolvedRender;
+  /**
+   * Wait until the input has not changed for this many milliseconds before
+   * submitting it, so clicking through parts renders only the final build.
+   * The first input is submitted right away; a render still running for a
+   * superseded input is cancelled as soon as the input changes. `status` is
+   * "validating" while waiting. Default: 0
+   */
+  debounceMs?: number;
 }
 
 /**
@@ -66,21 +205,90 @@ export type SpriteRenderInput =
       frameQuality?: 'standard' | 'high';
     };
 
+interface SpriteRenderLifecycle {
+  status: SpriteRenderStatus;
+  jobId: string | null;
+  jobStatus: RenderJobStatus | null;
+  timestamps: Partial<Record<SpriteRenderStatus, number>>;
+}
+
+const PHASE_BY_STATUS: Record<SpriteRenderStatus, SpriteRenderPhase> = {
+  idle: "idle",
+  validating: "submitting",
+  submitting: "submitting",
+  polling: "queued",
+  "loading-asset": "downloading",
+  ready: "ready",
+  error: "error",
+};
+
 export const useSpriteRender = (
   input: RenderBuildRequest | SpriteRenderInput,
   apiConfig: ApiConfig,
   onLoadStart?: () => void,
   options?: UseSpriteRenderOptions
 ): UseSpriteRenderReturn => {
-  const [spriteSrc, setSpriteSrc] = useState<string | null>(null);
-  const [isRenderingSprite, setIsRenderingSprite] = useState(false);
-  const [renderError, setRenderError] = useState<string | null>(null);
-  const [spriteMetadata, setSpriteMetadata] = useState<{
-    cols: number;
-    rows: number;
-    totalFrames: number;
-  } | null>(null);
+  // Start from a matching pre-resolved render instead of an empty state
+  const [seededRender] = useState(() => {
+    const initialRender = options?.initialRender;
+    if (!initialRender) return null;
+    return matchesInitialRender(initialRender, "sprite", toRenderRequest(input, "sprite"), apiConfig)
+      ? initialRender
+      : null;
+  });
+  const [spriteSrc, setSpriteSrc] = useState<string | null>(seededRender?.url ?? null);
+  const [spriteImage, setSpriteImage] = useState<HTMLImageElement | null>(null);
+  const [lifecycle, setLifecycle] = useState<SpriteRenderLifecycle>(() => ({
+    status: seededRender ? "loading-asset" : "idle",
+    jobId: seededRender?.jobId ?? null,
+    jobStatus: seededRender?.jobId ? "completed" : null,
+    timestamps: seededRender ? { "loading-asset": Date.now() } : {},
+  }));
+  const [error, setError] = useState<Error | null>(null);
+  const [spriteMetadata, setSpriteMetadata] = useState<SpriteLayout | null>(
+    seededRender?.layout ?? null
+  );
+  // Whether the service reported the grid - only an assumed grid may be
+  // replaced by one inferred from the image size
+  const layoutReportedRef = useRef(false);
   const previousInputRef = useRef<RenderBuildRequest | SpriteRenderInput | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Incremented by every request; only the latest one may commit its result
+  const requestSequenceRef = useRef(0);
+  const debounceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Keep the latest callback without re-triggering renders when it changes identity
+  const onStatusRef = useRef(options?.onStatus);
+  onStatusRef.current = options?.onStatus;
+  const jobPersistenceRef = useRef(options?.jobPersistence);
+  jobPersistenceRef.current = options?.jobPersistence;
+  const cacheRef = useRef(options?.cache);
+  cacheRef.current = options?.cache;
+  const schedulerRef = useRef(options?.scheduler);
+  schedulerRef.current = options?.scheduler;
+  const priorityRef = useRef(options?.priority);
+  priorityRef.current = options?.priority;
+  const initialRenderRef = useRef(options?.initialRender);
+  initialRenderRef.current = options?.initialRender;
+  // Key of the latest render, for priority updates while it is queued
+  const renderKeyRef = useRef<string | null>(null);
+
+  // Move to `status`; "validating" (or `restart`) begins a new render's timeline
+  const enterStatus = useCallback(
+    (status: SpriteRenderStatus, patch?: Partial<SpriteRenderLifecycle>, restart = false) => {
+      setLifecycle((previous) => ({
+        ...(restart || status === "validating"
+          ? { jobId: null, jobStatus: null, timestamps: {} }
+          : previous),
+        ...patch,
+        status,
+        timestamps: {
+          ...(restart || status === "validating" ? {} : previous.timestamps),
+          [status]: Date.now(),
+        },
+      }));
+    },
+    []
+  );
 
   // Normalize input to SpriteRenderInput format
   const normalizedInput: SpriteRenderInput = 
@@ -99,38 +307,105 @@ export const useSpriteRender = (
           gridSettings: input.gridSettings,
           frameQuality: input.frameQuality
         };
+  const latestInputRef = useRef(normalizedInput);
+  latestInputRef.current = normalizedInput;
 
   const fetchRenderSprite = useCallback(
-    async (currentInput: SpriteRenderInput) => {
+    async (currentInput: SpriteRenderInput, refresh = false, debounced = false) => {
+      // Cancel any render still in flight for the previous input
+      abortControllerRef.current?.abort();
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
+      const { signal } = controller;
+      const sequence = ++requestSequenceRef.current;
+      // Aborting is not enough on its own: a job shared through the scheduler
+      // or a cache lookup can still resolve after a newer request started
+      const isSuperseded = () => signal.aborted || sequence !== requestSequenceRef.current;
+
+      const handleStatus = (event: RenderJobStatusEvent) => {
+        if (isSuperseded()) return;
+        if (event.status === "queued" || event.status === "processing") {
+          enterStatus("polling", { jobId: event.jobId, jobStatus: event.status });
+        }
+        onStatusRef.current?.(event);
+      };
+
+      const cache = cacheRef.current === false ? undefined : cacheRef.current ?? defaultRenderCache;
+      const scheduler =
+        schedulerRef.current === false ? undefined : schedulerRef.current ?? defaultRenderScheduler;
+
       try {
-        setIsRenderingSprite(true);
-        setRenderError(null);
+        const target = toRenderRequest(currentInput, "sprite");
+        const renderKey = createRenderKey(target, apiConfig);
+        const initialRender = initialRenderRef.current;
+
+        // Rendered ahead of time - show it without touching the API
+        if (!refresh && matchesInitialRender(initialRender, "sprite", target, apiConfig)) {
+          setError(null);
+          enterStatus(
+            "loading-asset",
+            {
+              jobId: initialRender.jobId,
+              jobStatus: initialRender.jobId ? "completed" : null,
+            },
+            true
+          );
+          setSpriteImage(null);
+          layoutReportedRef.current = false;
+          setSpriteMetadata(initialRender.layout ?? spriteLayoutFor(currentInput.frameQuality));
+          setSpriteSrc((prevSrc) => {
+            if (prevSrc && prevSrc.startsWith("blob:")) {
+              URL.revokeObjectURL(prevSrc);
+            }
+            return initialRender.url;
+          });
+          return;
+        }
+
+        // A debounced render already entered "validating" when its input changed
+        if (!debounced) enterStatus("validating");
+        setError(null);
         onLoadStart?.();
 
+        // Fail fast on invalid options instead of spending a round-trip on a 400
+        assertValidRenderRequest(
+          target.type === "shareCode"
+            ? { shareCode: target.shareCode, ...target.options }
+            : target.request
+        );
+        // A refresh renders again instead of reusing the finished URL
+        if (refresh) await cache?.invalidate(renderKey);
+        if (isSuperseded()) return;
+        enterStatus("submitting");
+
         // Handle share code rendering - uses existing build with proper interactive state
-        if (currentInput.type === 'shareCode') {
-          const { videoUrl: spriteUrl } = await renderByShareCode(
-            currentInput.shareCode,
-            apiConfig,
-            { 
-              format: 'sprite', 
-              profile: currentInput.profile,
-              showGrid: currentInput.showGrid,
-              scene: currentInput.scene,
-              showBackground: currentInput.showBackground,
-              winterMode: currentInput.winterMode,
-              springMode: currentInput.springMode,
-              cameraOffsetX: currentInput.cameraOffsetX,
-              cameraZoom: currentInput.cameraZoom,
-              gridSettings: currentInput.gridSettings,
-              frameQuality: currentInput.frameQuality
-            }
-          );
+        if (target.type === 'shareCode') {
+          const shareCodeOptions = target.options;
+          renderKeyRef.current = renderKey;
+          const { videoUrl: spriteUrl, jobId, spriteLayout } =
+            cache?.peek(renderKey) ??
+            (await renderByShareCode(
+              target.shareCode,
+              apiConfig,
+              {
+                ...shareCodeOptions,
+                signal,
+                onStatus: handleStatus,
+                jobPersistence: jobPersistenceRef.current,
+                cache,
+                scheduler,
+                priority: priorityRef.current,
+              }
+            ));
+          if (isSuperseded()) return;
+          enterStatus("loading-asset", jobId ? { jobId, jobStatus: "completed" } : undefined);
 
           // Set metadata BEFORE sprite URL to avoid race condition
-          // (image load starts immediately when spriteSrc changes)
-          const rows = currentInput.frameQuality === 'high' ? 12 : 6;
-          setSpriteMetadata({ cols: 12, rows, totalFrames: 12 * rows });
+          // (image load starts immediately when spriteSrc changes), and drop
+          // the previous image so it is never drawn with the new grid
+          setSpriteImage(null);
+          layoutReportedRef.current = !!spriteLayout;
+          setSpriteMetadata(spriteLayout ?? spriteLayoutFor(shareCodeOptions.frameQuality));
 
           setSpriteSrc((prevSrc) => {
             if (prevSrc && prevSrc.startsWith("blob:")) {
@@ -142,35 +417,25 @@ export const useSpriteRender = (
         }
 
         // Handle parts-based rendering (creates new build)
-        const currentParts = currentInput.parts;
         const mode = options?.mode ?? "async";
-        const frameQuality = currentInput.frameQuality;
-        const rows = frameQuality === 'high' ? 12 : 6;
+        const spriteRequest = target.request;
+        const layout = spriteLayoutFor(spriteRequest.frameQuality);
         
         if (mode === "experimental") {
           const response = await renderSpriteExperimental(
-            {
-              ...currentParts,
-              showGrid: currentInput.showGrid,
-              scene: currentInput.scene,
-              showBackground: currentInput.showBackground,
-              winterMode: currentInput.winterMode,
-              springMode: currentInput.springMode,
-              cameraOffsetX: currentInput.cameraOffsetX,
-              cameraZoom: currentInput.cameraZoom,
-              gridSettings: currentInput.gridSettings,
-              frameQuality,
-            },
-            apiConfig
+            spriteRequest,
+            apiConfig,
+            { signal }
           );
+          if (isSuperseded()) return;
+          enterStatus("loading-asset");
           const objectUrl = URL.createObjectURL(response.sprite);
 
           // Set sprite metadata BEFORE sprite URL to avoid race condition
-          setSpriteMetadata({
-            cols: response.metadata?.cols || 12,
-            rows: response.metadata?.rows || rows,
-            totalFrames: response.metadata?.totalFrames || 12 * rows,
-          });
+          const reportedLayout = parseSpriteLayout(response.metadata);
+          setSpriteImage(null);
+          layoutReportedRef.current = !!reportedLayout;
+          setSpriteMetadata(reportedLayout ?? layout);
 
           // Clean up previous sprite URL before setting new one
           setSpriteSrc((prevSrc) => {
@@ -181,25 +446,24 @@ export const useSpriteRender = (
           });
         } else {
           // Async job-based flow: request sprite format and use returned URL
-          const { videoUrl: spriteUrl } = await renderBuild(
-            { 
-              ...currentParts, 
-              format: "sprite",
-              showGrid: currentInput.showGrid,
-              scene: currentInput.scene,
-              showBackground: currentInput.showBackground,
-              winterMode: currentInput.winterMode,
-              springMode: currentInput.springMode,
-              cameraOffsetX: currentInput.cameraOffsetX,
-              cameraZoom: currentInput.cameraZoom,
-              gridSettings: currentInput.gridSettings,
-              frameQuality,
-            },
-            apiConfig
-          );
+          renderKeyRef.current = renderKey;
+          const { videoUrl: spriteUrl, jobId, spriteLayout } =
+            cache?.peek(renderKey) ??
+            (await renderBuild(spriteRequest, apiConfig, {
+              signal,
+              onStatus: handleStatus,
+              jobPersistence: jobPersistenceRef.current,
+              cache,
+              scheduler,
+              priority: priorityRef.current,
+            }));
+          if (isSuperseded()) return;
+          enterStatus("loading-asset", jobId ? { jobId, jobStatus: "completed" } : undefined);
 
           // Set metadata BEFORE sprite URL to avoid race condition
-          setSpriteMetadata({ cols: 12, rows, totalFrames: 12 * rows });
+          setSpriteImage(null);
+          layoutReportedRef.current = !!spriteLayout;
+          setSpriteMetadata(spriteLayout ?? layout);
 
           setSpriteSrc((prevSrc) => {
             if (prevSrc && prevSrc.startsWith("blob:")) {
@@ -208,15 +472,16 @@ export const useSpriteRender = (
             return spriteUrl;
           });
         }
-      } catch (error) {
-        setRenderError(
-          error instanceof Error ? error.message : "Failed to render sprite"
-        );
-      } finally {
-        setIsRenderingSprite(false);
+      } catch (caught) {
+        // Superseded or unmounted - the newer render owns the state now
+        if (isSuperseded() || isAbortError(caught)) return;
+        const renderFailure =
+          caught instanceof Error ? caught : new Error("Failed to render sprite");
+        setError(renderFailure);
+        enterStatus("error");
       }
     },
-    [apiConfig, onLoadStart, options?.mode]
+    [apiConfig, onLoadStart, options?.mode, enterStatus]
   );
 
   // Check if inputs are equal
@@ -257,15 +522,134 @@ export const useSpriteRender = (
     return false;
   };
 
+  const cancelPendingSubmit = () => {
+    if (debounceTimerRef.current !== null) {
+      clearTimeout(debounceTimerRef.current);
+      debounceTimerRef.current = null;
+    }
+  };
+
   // Effect to call API when input changes
   useEffect(() => {
     const shouldFetch = !areInputsEqual(previousInputRef.current as SpriteRenderInput | null, normalizedInput);
+    if (!shouldFetch) return;
 
-    if (shouldFetch) {
-      previousInputRef.current = normalizedInput;
+    const isFirstInput = previousInputRef.current === null;
+    previousInputRef.current = normalizedInput;
+    cancelPendingSubmit();
+    const debounceMs = options?.debounceMs ?? 0;
+    if (isFirstInput || debounceMs <= 0) {
       fetchRenderSprite(normalizedInput);
+      return;
     }
-  }, [normalizedInput, fetchRenderSprite]);
+
+    // Drop the superseded render now and submit once the input has settled.
+    // The timer lives in a ref so re-renders with an equal input keep it.
+    abortControllerRef.current?.abort();
+    requestSequenceRef.current++;
+    enterStatus("validating");
+    debounceTimerRef.current = setTimeout(() => {
+      debounceTimerRef.current = null;
+      fetchRenderSprite(normalizedInput, false, true);
+    }, debounceMs);
+  }, [normalizedInput, fetchRenderSprite, enterStatus]);
+
+  // Move a render that is still waiting for a scheduler slot when its priority changes
+  useEffect(() => {
+    const scheduler = options?.scheduler === false ? undefined : options?.scheduler ?? defaultRenderScheduler;
+    if (scheduler && renderKeyRef.current && options?.priority !== undefined) {
+      scheduler.prioritize(renderKeyRef.current, options.priority);
+    }
+  }, [options?.scheduler, options?.priority]);
+
+  // Load the finished sprite sheet so `status` only reports "ready" once it is decoded
+  const { status } = lifecycle;
+  useEffect(() => {
+    if (!spriteSrc || status !== "loading-asset") return;
+    if (typeof Image === "undefined") {
+      enterStatus("ready");
+      return;
+    }
+
+    const image = new Image();
+    image.decoding = "async";
+    image.onload = () => {
+      const { naturalWidth: width, naturalHeight: height } = image;
+      const expected = spriteMetadata ?? spriteLayoutFor();
+      if (layoutReportedRef.current) {
+        // The service said how the sheet is laid out - a mismatch would draw the wrong frames
+        if (!spriteLayoutFitsImage(expected, width, height)) {
+          setError(
+            new SpriteLayoutError(
+              `Sprite sheet is ${width}x${height}, which does not divide into the reported ` +
+                `${expected.cols}x${expected.rows} grid`,
+              expected,
+              width,
+              height
+            )
+          );
+          enterStatus("error");
+          return;
+        }
+      } else {
+        // The grid was assumed from frameQuality - correct it from the image size,
+        // keeping the frame shape of the requested canvas size
+        const input = latestInputRef.current;
+        const request = input.type === "parts" ? input.parts : undefined;
+        const frameAspect =
+          request?.width && request?.height ? request.width / request.height : undefined;
+        const inferred = inferSpriteLayout(width, height, expected, frameAspect);
+        if (!inferred) {
+          setError(
+            new SpriteLayoutError(
+              `Sprite sheet is ${width}x${height}, which does not divide into the expected ` +
+                `${expected.cols}x${expected.rows} grid or any grid inferred from its size`,
+              expected,
+              width,
+              height
+            )
+          );
+          enterStatus("error");
+          return;
+        }
+        if (inferred !== expected) setSpriteMetadata(inferred);
+      }
+      setSpriteImage(image);
+      enterStatus("ready");
+    };
+    image.onerror = () => {
+      setError(new Error("Failed to load sprite image"));
+      enterStatus("error");
+    };
+    image.src = spriteSrc;
+
+    return () => {
+      image.onload = null;
+      image.onerror = null;
+    };
+  }, [spriteSrc, status, spriteMetadata, enterStatus]);
+
+  const retry = useCallback(() => {
+    cancelPendingSubmit();
+    previousInputRef.current = latestInputRef.current;
+    fetchRenderSprite(latestInputRef.current);
+  }, [fetchRenderSprite]);
+
+  const refresh = useCallback(() => {
+    cancelPendingSubmit();
+    previousInputRef.current = latestInputRef.current;
+    fetchRenderSprite(latestInputRef.current, true);
+  }, [fetchRenderSprite]);
+
+  // Abort any outstanding render on unmount (and forget the input so a
+  // StrictMode remount submits it again instead of waiting forever)
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      cancelPendingSubmit();
+      previousInputRef.current = null;
+    };
+  }, []);
 
   // Cleanup effect for component unmount
   useEffect(() => {
@@ -277,9 +661,22 @@ export const useSpriteRender = (
   }, [spriteSrc]);
 
   return {
+    status,
+    jobId: lifecycle.jobId,
+    jobStatus: lifecycle.jobStatus,
+    timestamps: lifecycle.timestamps,
+    retry,
+    refresh,
     spriteSrc,
-    isRenderingSprite,
-    renderError,
+    spriteImage,
+    isRenderingSprite:
+      status === "validating" || status === "submitting" || status === "polling",
+    phase:
+      status === "polling" && lifecycle.jobStatus === "processing"
+        ? "processing"
+        : PHASE_BY_STATUS[status],
+    renderError: error?.message ?? null,
+    error,
     spriteMetadata,
   };
 };
@@ -19,7 +19,9 @@ interface UseZoomReturn {
   scale: number;
   isPinching: boolean;
   handleWheel: (event: ReactWheelEvent<Element>) => void;
-  handleTouchStart: (event: ReactTouchEvent<HTMLCanvasElement>) => boolean;
+  /** Zoom by a wheel delta, e.g. from a native `WheelEvent` listener */
+  zoomByWheelDelta: (deltaY: number, deltaMode?: number) => void;
+  handleTouchStart: (event: ReactTouchEvent<Element>) => boolean;
   reset: () => void;
 }
 
@@ -63,27 +65,34 @@ export const useZoomPan = ({
     [minScale, maxScale]
   );
 
+  // deltaMode 1 scrolls by lines and 2 by pages - convert both to pixels
+  const zoomByWheelDelta = useCallback(
+    (deltaY: number, deltaMode = 0) => {
+      const pixels =
+        deltaMode === 1
+          ? deltaY * 16
+          : deltaMode === 2
+          ? deltaY * (displayHeight ?? 300)
+          : deltaY;
+
+      const zoomFactor = Math.exp(-pixels * 0.0015);
+      const nextScale = scaleRef.current * zoomFactor;
+      setScaleSafe(nextScale);
+    },
+    [setScaleSafe, displayHeight]
+  );
+
   const handleWheel = useCallback(
     (event: ReactWheelEvent<Element>) => {
       event.preventDefault();
       event.stopPropagation();
-
-      const deltaY =
-        event.deltaMode === 1
-          ? event.deltaY * 16
-          : event.deltaMode === 2
-          ? event.deltaY * (displayHeight ?? 300)
-          : event.deltaY;
-
-      const zoomFactor = Math.exp(-deltaY * 0.0015);
-      const nextScale = scaleRef.current * zoomFactor;
-      setScaleSafe(nextScale);
+      zoomByWheelDelta(event.deltaY, event.deltaMode);
     },
-    [setScaleSafe, displayHeight]
+    [zoomByWheelDelta]
   );
 
   const handleTouchStart = useCallback(
-    (event: ReactTouchEvent<HTMLCanvasElement>) => {
+    (event: ReactTouchEvent<Element>) => {
       if (event.touches.length < 2) {
         return false;
       }
@@ -145,6 +154,7 @@ export const useZoomPan = ({
     scale,
     isPinching,
     handleWheel,
+    zoomByWheelDelta,
     handleTouchStart,
     reset,
   };
@@ -1,5 +1,9 @@
 export { BuildRender } from "./BuildRender";
 export { BuildRenderVideo } from "./BuildRenderVideo";
+export { RenderClientProvider, useRenderClient } from "./RenderClientProvider";
+export type { RenderClientProviderProps } from "./RenderClientProvider";
+export { createRenderClient } from "./client";
+export type { RenderClient } from "./client";
 export type {
   BuildRenderProps,
   BuildRenderVideoProps,
@@ -8,15 +12,43 @@ export type {
   PartDetails,
   ApiConfig,
   GetAvailablePartsOptions,
+  IterateAvailablePartsOptions,
+  GetAllAvailablePartsOptions,
+  AllAvailablePartsResponse,
+  ApiRequestOptions,
+  RetryPolicy,
+  RenderRequestWarning,
   // New types for build and parts API
   PartDetailsWithCategory,
   BuildResponse,
   PartsResponse,
+  PartsByIdsResponse,
   RenderByShareCodeOptions,
+  RenderByShareCodeJobOptions,
   RenderByShareCodeJobResponse,
   RenderByShareCodeResponse,
   RenderScene,
   GridSettings,
+  RenderJobStatus,
+  RenderJobStatusEvent,
+  RenderJobPollingOptions,
+  PollingContext,
+  PollingStrategy,
+  RenderJobStore,
+  RenderJobPersistenceOptions,
+  RenderCache,
+  RenderCacheStore,
+  RenderCacheOptions,
+  RenderScheduler,
+  RenderScheduleOptions,
+  RenderSchedulerOptions,
+  RenderClientConfig,
+  RenderClientRequest,
+  RenderRequestInterceptor,
+  RenderResponseInterceptor,
+  RenderOptionDefaults,
+  ResolvedRender,
+  SpriteLayout,
 } from "./types";
 export { PartCategory } from "./types";
 export {
@@ -31,8 +63,16 @@ export { useBouncePatternProgress } from "./hooks/useProgressOneSecond";
 export { useContinuousSpin } from "./hooks/useContinuousSpin";
 export { useBuildRender, arePartsEqual } from "./hooks/useBuildRender";
 export { useSpriteRender } from "./hooks/useSpriteRender";
-export type { UseBuildRenderReturn, UseBuildRenderOptions } from "./hooks/useBuildRender";
-export type { UseSpriteRenderReturn, UseSpriteRenderOptions, SpriteRenderInput } from "./hooks/useSpriteRender";
+export { usePartDetails } from "./hooks/usePartDetails";
+export type { UsePartDetailsOptions, UsePartDetailsReturn } from "./hooks/usePartDetails";
+export type { UseBuildRenderReturn, UseBuildRenderOptions, BuildRenderInput } from "./hooks/useBuildRender";
+export type {
+  UseSpriteRenderReturn,
+  UseSpriteRenderOptions,
+  SpriteRenderInput,
+  SpriteRenderPhase,
+  SpriteRenderStatus,
+} from "./hooks/useSpriteRender";
 export { DragIcon } from "./components/DragIcon";
 export { LoadingErrorOverlay } from "./components/LoadingErrorOverlay";
 export { InstructionTooltip } from "./components/InstructionTooltip";
@@ -43,15 +83,84 @@ export {
   buildHeaders,
   renderBuildExperimental,
   renderSpriteExperimental,
+  getSpriteLayoutManifest,
   getAvailableParts,
+  iterateAvailableParts,
+  getAllAvailableParts,
+  AVAILABLE_PARTS_MAX_PAGE_SIZE,
   // New API functions for build and parts
   getBuildByShareCode,
   getPartsByIds,
   renderByShareCode,
   createRenderByShareCodeJob,
+  renderBuild,
   type RenderAPIService,
   type RenderBuildResponse,
   type RenderSpriteResponse,
   type RenderJobCreateResponse,
   type RenderJobStatusResponse,
 } from "./api";
+export {
+  createAdaptivePollingStrategy,
+  createFixedPollingStrategy,
+  DEFAULT_POLLING_STRATEGY,
+} from "./polling";
+export type { AdaptivePollingOptions } from "./polling";
+export {
+  validateRenderRequest,
+  RenderValidationError,
+  RENDER_DIMENSION_RANGE,
+  CAMERA_OFFSET_X_RANGE,
+  CAMERA_ZOOM_RANGE,
+} from "./validation";
+export type {
+  RenderValidationIssue,
+  RenderValidationIssueCode,
+  RenderValidationResult,
+  RenderValidationInput,
+} from "./validation";
+export { createMemoryJobStore, createSessionStorageJobStore } from "./jobPersistence";
+export {
+  createRenderCache,
+  defaultRenderCache,
+  createLocalStorageRenderCacheStore,
+  createIndexedDbRenderCacheStore,
+} from "./renderCache";
+export { createRenderScheduler, defaultRenderScheduler } from "./renderScheduler";
+export { createPartLoader, getDefaultPartLoader } from "./partLoader";
+export type { PartLoader, PartLoaderOptions, PartLoadResult } from "./partLoader";
+export { createPartSearchIndex, normalizeSearchText } from "./partSearch";
+export type {
+  PartSearchIndex,
+  PartSearchIndexOptions,
+  PartSearchOptions,
+  PartSearchLoadOptions,
+  PartSearchResult,
+  PartSearchSnapshot,
+} from "./partSearch";
+export { resolveRender } from "./prerender";
+export {
+  parseSpriteLayout,
+  readSpriteLayoutHeaders,
+  inferSpriteLayout,
+  spriteLayoutFitsImage,
+  SpriteLayoutError,
+  SPRITE_LAYOUT_HEADERS,
+} from "./spriteLayout";
+export type { ResolveRenderOptions } from "./prerender";
+export { createRenderKey, canonicalizeRenderInput } from "./renderKey";
+export type { RenderKeyInput } from "./renderKey";
+export { serializeRenderRequest, RENDER_OPTION_KEYS } from "./requestSerializer";
+export type { RenderOptionKey, RenderRequestEndpoint, RenderRequestInput, SerializedRenderRequest } from "./requestSerializer";
+export {
+  RenderApiError,
+  RenderBadRequestError,
+  RenderAuthError,
+  RenderScopeError,
+  RenderNotFoundError,
+  RenderServerError,
+  RenderJobFailedError,
+  RenderTimeoutError,
+  isAbortError,
+} from "./errors";
+export type { RenderApiErrorDetails } from "./errors";
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import { renderBuild } from "./api";
+import { isAbortError } from "./errors";
+import { createMemoryJobStore } from "./jobPersistence";
+import { createMockRenderApi } from "./testing";
+import { ApiConfig, PartCategory, RenderBuildRequest, RenderJobStore } from "./types";
+
+const FAST_RETRY = { initialDelayMs: 1, jitter: false };
+
+const setup = () => {
+  const mock = createMockRenderApi({
+    lifecycle: [{ status: "processing", durationMs: 50 }, { status: "completed" }],
+  });
+  const config: ApiConfig = {
+    baseUrl: "https://mock.local",
+    authToken: "test-token",
+    fetch: mock.fetch,
+    retry: FAST_RETRY,
+    jobCreationRetry: FAST_RETRY,
+  };
+  const request: RenderBuildRequest = {
+    parts: { [PartCategory.CPU]: [mock.parts[0].id] },
+  };
+  const creations = () => mock.requests.filter(({ method }) => method === "POST").length;
+  return { mock, config, request, creations };
+};
+
+// Start a render and abort it once the job is processing, leaving it persisted
+const abandonRender = async (
+  request: RenderBuildRequest,
+  config: ApiConfig,
+  jobPersistence: { store: RenderJobStore; ttlMs?: number }
+) => {
+  const controller = new AbortController();
+  const error = await renderBuild(request, config, {
+    pollIntervalMs: 1,
+    jobPersistence,
+    signal: controller.signal,
+    onStatus: ({ status }) => {
+      if (status === "processing") controller.abort();
+    },
+  }).catch((caught) => caught);
+  expect(isAbortError(error)).toBe(true);
+};
+
+describe("jobPersistence", () => {
+  it("resumes a pending job instead of submitting again", async () => {
+    const { config, request, creations } = setup();
+    const store = createMemoryJobStore();
+    await abandonRender(request, config, { store });
+
+    const result = await renderBuild(request, config, { pollIntervalMs: 1, jobPersistence: { store } });
+
+    expect(result.jobId).toBe("mock-job-1");
+    expect(creations()).toBe(1);
+  });
+
+  it("forgets the job once it settled", async () => {
+    const { config, request, creations } = setup();
+    const store = createMemoryJobStore();
+    await abandonRender(request, config, { store });
+    await renderBuild(request, config, { pollIntervalMs: 1, jobPersistence: { store } });
+
+    const again = await renderBuild(request, config, { pollIntervalMs: 1, jobPersistence: { store } });
+
+    expect(again.jobId).toBe("mock-job-2");
+    expect(creations()).toBe(2);
+  });
+
+  it("submits a new job once the stored one expired", async () => {
+    const { config, request, creations } = setup();
+    const store = createMemoryJobStore();
+    await abandonRender(request, config, { store, ttlMs: 1 });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const result = await renderBuild(request, config, { pollIntervalMs: 1, jobPersistence: { store } });
+
+    expect(result.jobId).toBe("mock-job-2");
+    expect(creations()).toBe(2);
+  });
+
+  it("submits a new job when the stored one is gone", async () => {
+    const { mock, config, request, creations } = setup();
+    const store = createMemoryJobStore();
+    await abandonRender(request, config, { store });
+    mock.injectError({ path: "/render-build/mock-job-1", status: 404 });
+
+    const result = await renderBuild(request, config, { pollIntervalMs: 1, jobPersistence: { store } });
+
+    expect(result.jobId).toBe("mock-job-2");
+    expect(creations()).toBe(2);
+  });
+});
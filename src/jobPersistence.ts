@@ -0,0 +1,117 @@
+import { RenderJobPersistenceOptions, RenderJobStatus, RenderJobStore } from "./types";
+
+export interface PersistedRenderJob {
+  jobId: string;
+  status: RenderJobStatus;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ResolvedJobPersistence {
+  store: RenderJobStore;
+  ttlMs: number;
+  keyPrefix: string;
+}
+
+const DEFAULT_JOB_TTL_MS = 10 * 60_000;
+const DEFAULT_KEY_PREFIX = "buildcores:render-job:";
+
+/**
+ * In-memory job store - survives remounts but not page reloads
+ */
+export const createMemoryJobStore = (): RenderJobStore => {
+  const entries = new Map<string, string>();
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+  };
+};
+
+let fallbackStore: RenderJobStore | null = null;
+
+/**
+ * sessionStorage-backed job store. Falls back to a shared in-memory store when
+ * sessionStorage is unavailable (server rendering, privacy mode).
+ */
+export const createSessionStorageJobStore = (): RenderJobStore => {
+  try {
+    if (typeof window !== "undefined" && window.sessionStorage) {
+      return window.sessionStorage;
+    }
+  } catch {
+    // Accessing sessionStorage throws when storage is blocked
+  }
+  fallbackStore ??= createMemoryJobStore();
+  return fallbackStore;
+};
+
+export const resolveJobPersistence = (
+  persistence: RenderJobPersistenceOptions | boolean | undefined
+): ResolvedJobPersistence | null => {
+  if (!persistence) return null;
+  const options = persistence === true ? {} : persistence;
+  return {
+    store: options.store ?? createSessionStorageJobStore(),
+    ttlMs: options.ttlMs ?? DEFAULT_JOB_TTL_MS,
+    keyPrefix: options.keyPrefix ?? DEFAULT_KEY_PREFIX,
+  };
+};
+
+// Storage failures (quota, blocked storage) must never break rendering,
+// so every helper below swallows them and behaves as a cache miss
+
+export const loadPersistedJob = async (
+  persistence: ResolvedJobPersistence,
+  key: string
+): Promise<PersistedRenderJob | null> => {
+  const storageKey = persistence.keyPrefix + key;
+  try {
+    const raw = await persistence.store.getItem(storageKey);
+    if (!raw) return null;
+
+    const job = JSON.parse(raw) as PersistedRenderJob;
+    if (!job?.jobId || !(job.expiresAt > Date.now())) {
+      await persistence.store.removeItem(storageKey);
+      return null;
+    }
+    return job;
+  } catch {
+    return null;
+  }
+};
+
+export const savePersistedJob = async (
+  persistence: ResolvedJobPersistence,
+  key: string,
+  jobId: string,
+  status: RenderJobStatus
+): Promise<void> => {
+  const createdAt = Date.now();
+  const job: PersistedRenderJob = {
+    jobId,
+    status,
+    createdAt,
+    expiresAt: createdAt + persistence.ttlMs,
+  };
+  try {
+    await persistence.store.setItem(persistence.keyPrefix + key, JSON.stringify(job));
+  } catch {
+    // Ignore - the job simply will not be resumable
+  }
+};
+
+export const clearPersistedJob = async (
+  persistence: ResolvedJobPersistence,
+  key: string
+): Promise<void> => {
+  try {
+    await persistence.store.removeItem(persistence.keyPrefix + key);
+  } catch {
+    // Ignore
+  }
+};
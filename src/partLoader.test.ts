@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { createPartLoader } from "./partLoader";
+import { createMockRenderApi } from "./testing";
+import { ApiConfig } from "./types";
+
+const setup = () => {
+  const mock = createMockRenderApi();
+  const config: ApiConfig = { baseUrl: "https://mock.local", fetch: mock.fetch };
+  const partRequests = () =>
+    mock.requests
+      .filter(({ path }) => path === "/parts")
+      .map(({ body }) => (body as { ids: string[] }).ids);
+  return { mock, config, partRequests };
+};
+
+describe("createPartLoader", () => {
+  it("batches loads made in the same tick into one request", async () => {
+    const { mock, config, partRequests } = setup();
+    const loader = createPartLoader(config);
+    const [first, second] = mock.parts;
+
+    const [a, b, again] = await Promise.all([
+      loader.load(first.id),
+      loader.load(second.id),
+      loader.load(first.id),
+    ]);
+
+    expect([a?.id, b?.id, again?.id]).toEqual([first.id, second.id, first.id]);
+    expect(partRequests()).toEqual([[first.id, second.id]]);
+  });
+
+  it("serves loaded parts from the cache", async () => {
+    const { mock, config, partRequests } = setup();
+    const loader = createPartLoader(config);
+    await loader.load(mock.parts[0].id);
+
+    expect(loader.peek(mock.parts[0].id)?.id).toBe(mock.parts[0].id);
+    await loader.load(mock.parts[0].id);
+    expect(partRequests()).toHaveLength(1);
+  });
+
+  it("splits more than 100 IDs into several requests", async () => {
+    const { mock, config, partRequests } = setup();
+    const loader = createPartLoader(config, { maxBatchSize: 500 });
+    const ids = mock.parts.slice(0, 150).map(({ id }) => id);
+
+    const { parts, missingIds } = await loader.loadMany(ids);
+
+    expect(parts.map(({ id }) => id)).toEqual(ids);
+    expect(missingIds).toEqual([]);
+    expect(partRequests().map((batch) => batch.length)).toEqual([100, 50]);
+  });
+
+  it("reports unknown IDs as missing until missingTtlMs passed", async () => {
+    const { mock, config, partRequests } = setup();
+    const loader = createPartLoader(config, { missingTtlMs: 20 });
+
+    const { missingIds } = await loader.loadMany([mock.parts[0].id, "no-such-part"]);
+    expect(missingIds).toEqual(["no-such-part"]);
+    expect(loader.isMissing("no-such-part")).toBe(true);
+
+    expect(await loader.load("no-such-part")).toBeNull();
+    expect(partRequests()).toHaveLength(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect(loader.isMissing("no-such-part")).toBe(false);
+    expect(await loader.load("no-such-part")).toBeNull();
+    expect(partRequests()).toEqual([[mock.parts[0].id, "no-such-part"], ["no-such-part"]]);
+  });
+
+  it("rejects every load of a failed batch", async () => {
+    const { mock, config } = setup();
+    const loader = createPartLoader(config);
+    mock.injectError({ path: "/parts", status: 400 });
+
+    const results = await Promise.allSettled([loader.load(mock.parts[0].id), loader.load(mock.parts[1].id)]);
+
+    expect(results.map(({ status }) => status)).toEqual(["rejected", "rejected"]);
+    expect(loader.peek(mock.parts[0].id)).toBeNull();
+  });
+});
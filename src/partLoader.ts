@@ -0,0 +1,207 @@
+import { ApiConfig, PartDetailsWithCategory } from "./types";
+import { PARTS_MAX_IDS_PER_REQUEST, getPartsByIds } from "./api";
+
+export interface PartLoaderOptions {
+  /** Maximum IDs per `POST /parts` request (default and maximum: 100) */
+  maxBatchSize?: number;
+  /** How long a loaded part is served from the cache, in milliseconds (default: 1800000 = 30 minutes) */
+  cacheTtlMs?: number;
+  /** How long an ID the API returned no part for is reported missing without asking again, in milliseconds (default: 300000 = 5 minutes) */
+  missingTtlMs?: number;
+}
+
+/**
+ * Result of loading several parts at once
+ */
+export interface PartLoadResult {
+  /** Found parts, in the order they were requested */
+  parts: PartDetailsWithCategory[];
+  /** Found parts by ID */
+  partsById: Record<string, PartDetailsWithCategory>;
+  /** Requested IDs the API returned no part for */
+  missingIds: string[];
+}
+
+/**
+ * Batches part lookups: loads requested in the same tick share one
+ * `POST /parts` request, and loaded parts are cached per ID
+ */
+export interface PartLoader {
+  /** Load one part; resolves to null when the API does not know the ID */
+  load(id: string): Promise<PartDetailsWithCategory | null>;
+  /** Load several parts, reporting unknown IDs in `missingIds` */
+  loadMany(ids: string[]): Promise<PartLoadResult>;
+  /** Cached part, without loading */
+  peek(id: string): PartDetailsWithCategory | null;
+  /** Whether the API recently returned no part for the ID, without loading */
+  isMissing(id: string): boolean;
+  /** Put a part fetched elsewhere (e.g. from `getBuildByShareCode`) into the cache */
+  prime(part: PartDetailsWithCategory): void;
+  /** Forget one cached part or missing ID, or all of them */
+  clear(id?: string): void;
+}
+
+interface PendingPart {
+  promise: Promise<PartDetailsWithCategory | null>;
+  resolve: (part: PartDetailsWithCategory | null) => void;
+  reject: (reason: unknown) => void;
+}
+
+const DEFAULT_PART_CACHE_TTL_MS = 30 * 60_000;
+const DEFAULT_MISSING_PART_TTL_MS = 5 * 60_000;
+
+/**
+ * Create a batching, caching part loader
+ *
+ * @example
+ * ```tsx
+ * const loader = createPartLoader(config);
+ * // Both calls go out as one request
+ * const [cpu, gpu] = await Promise.all([loader.load('7xjqsomhr'), loader.load('z7pyphm9k')]);
+ * ```
+ */
+export const createPartLoader = (config: ApiConfig, options: PartLoaderOptions = {}): PartLoader => {
+  const maxBatchSize = Math.min(
+    options.maxBatchSize ?? PARTS_MAX_IDS_PER_REQUEST,
+    PARTS_MAX_IDS_PER_REQUEST
+  );
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_PART_CACHE_TTL_MS;
+  const missingTtlMs = options.missingTtlMs ?? DEFAULT_MISSING_PART_TTL_MS;
+  const cache = new Map<string, { part: PartDetailsWithCategory; expiresAt: number }>();
+  // Unknown IDs by when they may be requested again
+  const missing = new Map<string, number>();
+  // Queued or in-flight loads, so the same ID is only requested once at a time
+  const inFlight = new Map<string, PendingPart>();
+  let queue: string[] = [];
+  let flushScheduled = false;
+
+  const peek = (id: string): PartDetailsWithCategory | null => {
+    const entry = cache.get(id);
+    if (!entry) return null;
+    if (!(entry.expiresAt > Date.now())) {
+      cache.delete(id);
+      return null;
+    }
+    return entry.part;
+  };
+
+  const isMissing = (id: string): boolean => {
+    const expiresAt = missing.get(id);
+    if (expiresAt === undefined) return false;
+    if (!(expiresAt > Date.now())) {
+      missing.delete(id);
+      return false;
+    }
+    return true;
+  };
+
+  const prime = (part: PartDetailsWithCategory) => {
+    missing.delete(part.id);
+    cache.set(part.id, { part, expiresAt: Date.now() + cacheTtlMs });
+  };
+
+  const loadBatch = async (ids: string[]) => {
+    try {
+      const { parts } = await getPartsByIds(ids, config);
+      parts.forEach(prime);
+      const found = new Map(parts.map((part) => [part.id, part]));
+      for (const id of ids) {
+        const part = found.get(id) ?? null;
+        if (!part) missing.set(id, Date.now() + missingTtlMs);
+        inFlight.get(id)?.resolve(part);
+        inFlight.delete(id);
+      }
+    } catch (error) {
+      for (const id of ids) {
+        inFlight.get(id)?.reject(error);
+        inFlight.delete(id);
+      }
+    }
+  };
+
+  const flush = () => {
+    flushScheduled = false;
+    const ids = queue;
+    queue = [];
+    for (let i = 0; i < ids.length; i += maxBatchSize) {
+      void loadBatch(ids.slice(i, i + maxBatchSize));
+    }
+  };
+
+  const load = (id: string): Promise<PartDetailsWithCategory | null> => {
+    const cached = peek(id);
+    if (cached) return Promise.resolve(cached);
+    if (isMissing(id)) return Promise.resolve(null);
+
+    const pending = inFlight.get(id);
+    if (pending) return pending.promise;
+
+    let resolve!: PendingPart["resolve"];
+    let reject!: PendingPart["reject"];
+    const promise = new Promise<PartDetailsWithCategory | null>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    inFlight.set(id, { promise, resolve, reject });
+    queue.push(id);
+
+    // Collect every load made in this tick into one request
+    if (!flushScheduled) {
+      flushScheduled = true;
+      Promise.resolve().then(flush);
+    }
+    return promise;
+  };
+
+  const loadMany = async (ids: string[]): Promise<PartLoadResult> => {
+    const uniqueIds = [...new Set(ids)];
+    const loaded = await Promise.all(uniqueIds.map(load));
+
+    const parts: PartDetailsWithCategory[] = [];
+    const partsById: Record<string, PartDetailsWithCategory> = {};
+    const missingIds: string[] = [];
+    uniqueIds.forEach((id, index) => {
+      const part = loaded[index];
+      if (part) {
+        parts.push(part);
+        partsById[id] = part;
+      } else {
+        missingIds.push(id);
+      }
+    });
+    return { parts, partsById, missingIds };
+  };
+
+  return {
+    load,
+    loadMany,
+    peek,
+    isMissing,
+    prime,
+    clear: (id) => {
+      if (id === undefined) {
+        cache.clear();
+        missing.clear();
+      } else {
+        cache.delete(id);
+        missing.delete(id);
+      }
+    },
+  };
+};
+
+const defaultLoaders = new WeakMap<ApiConfig, PartLoader>();
+
+/**
+ * Part loader shared by every caller passing the same config object. Keyed on
+ * the object itself, so configs with their own `fetch` or session token
+ * supplier never share a loader - define the config once to share batches and cache.
+ */
+export const getDefaultPartLoader = (config: ApiConfig): PartLoader => {
+  let loader = defaultLoaders.get(config);
+  if (!loader) {
+    loader = createPartLoader(config);
+    defaultLoaders.set(config, loader);
+  }
+  return loader;
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { createPartSearchIndex, normalizeSearchText } from "./partSearch";
+import { createMockRenderApi } from "./testing";
+import { ApiConfig, PartCategory } from "./types";
+
+const GPU_NAMES = [
+  "AMD Radeon RX 7900 XTX",
+  "NVIDIA GeForce RTX 4090 Ti",
+  "NVIDIA GeForce RTX 4080",
+  "NVIDIA GeForce RTX 4090",
+  "Intel Arc A770",
+  "NVIDIA GeForce GTX 1080",
+];
+
+const setup = () => {
+  const mock = createMockRenderApi({
+    parts: GPU_NAMES.map((name, index) => ({
+      id: `gpu-${index}`,
+      name,
+      image: null,
+      category: PartCategory.GPU,
+    })),
+  });
+  const config: ApiConfig = { baseUrl: "https://mock.local", fetch: mock.fetch };
+  const pageRequests = () => mock.requests.filter(({ path }) => path === "/available-parts").length;
+  return { mock, config, pageRequests };
+};
+
+describe("normalizeSearchText", () => {
+  it("normalizes case, accents, punctuation and letter-digit boundaries", () => {
+    expect(normalizeSearchText("GeForce RTX-4090")).toBe(normalizeSearchText("geforce rtx4090"));
+    expect(normalizeSearchText("Café  Noir!")).toBe("cafe noir");
+  });
+});
+
+describe("createPartSearchIndex", () => {
+  it("ranks exact matches above typos, then prefers shorter names", async () => {
+    const { config } = setup();
+    const index = createPartSearchIndex(config, { categories: [PartCategory.GPU] });
+    await index.loadAll();
+
+    const names = index.search("rtx4090").map(({ part }) => part.name);
+
+    expect(names).toEqual([
+      "NVIDIA GeForce RTX 4090",
+      "NVIDIA GeForce RTX 4090 Ti",
+      // "4080" is one edit away from "4090"
+      "NVIDIA GeForce RTX 4080",
+    ]);
+  });
+
+  it("matches prefixes and small typos, and requires every query word", async () => {
+    const { config } = setup();
+    const index = createPartSearchIndex(config, { categories: [PartCategory.GPU] });
+    await index.loadAll();
+
+    expect(index.search("radon").map(({ part }) => part.id)).toEqual(["gpu-0"]);
+    expect(index.search("gefo 1080").map(({ part }) => part.id)).toEqual(["gpu-5", "gpu-2"]);
+    expect(index.search("radeon 4090")).toEqual([]);
+  });
+
+  it("loads pages only until enough results are found", async () => {
+    const { config, pageRequests } = setup();
+    const index = createPartSearchIndex(config, { categories: [PartCategory.GPU], pageSize: 2 });
+
+    const results = await index.searchAndLoad("nvidia", { limit: 1 });
+
+    expect(results).toHaveLength(1);
+    expect(pageRequests()).toBe(1);
+    expect(index.isComplete()).toBe(false);
+
+    await index.searchAndLoad("nvidia", { limit: 10 });
+    expect(index.isComplete()).toBe(true);
+    expect(index.size).toBe(GPU_NAMES.length);
+  });
+
+  it("restores a snapshot without requesting pages again", async () => {
+    const { config, pageRequests } = setup();
+    const index = createPartSearchIndex(config, { categories: [PartCategory.GPU], pageSize: 4 });
+    await index.loadAll();
+    const requested = pageRequests();
+
+    const restored = createPartSearchIndex(config, {
+      categories: [PartCategory.GPU],
+      snapshot: JSON.parse(JSON.stringify(index.toSnapshot())),
+    });
+
+    expect(restored.size).toBe(GPU_NAMES.length);
+    expect(restored.isComplete()).toBe(true);
+    expect(restored.search("rtx 4090")).toEqual(index.search("rtx 4090"));
+    expect(await restored.loadNextPage(PartCategory.GPU)).toBe(false);
+    expect(pageRequests()).toBe(requested);
+  });
+
+  it("continues loading a partial snapshot where it stopped", async () => {
+    const { config, mock } = setup();
+    const index = createPartSearchIndex(config, { categories: [PartCategory.GPU], pageSize: 4 });
+    await index.loadNextPage(PartCategory.GPU);
+
+    const restored = createPartSearchIndex(config, {
+      categories: [PartCategory.GPU],
+      pageSize: 4,
+      snapshot: index.toSnapshot(),
+    });
+    await restored.loadAll();
+
+    expect(restored.size).toBe(GPU_NAMES.length);
+    expect(mock.requests[mock.requests.length - 1].query.get("skip")).toBe("4");
+  });
+
+  it("ignores snapshots older than snapshotMaxAgeMs", () => {
+    const { config } = setup();
+    const snapshot = {
+      ...createPartSearchIndex(config, { categories: [PartCategory.GPU] }).toSnapshot(),
+      savedAt: Date.now() - 60_000,
+    };
+    snapshot.categories[PartCategory.GPU] = {
+      parts: [{ id: "gpu-0", name: GPU_NAMES[0], image: "" }],
+      nextSkip: 1,
+      complete: true,
+    };
+
+    const restored = createPartSearchIndex(config, {
+      categories: [PartCategory.GPU],
+      snapshot,
+      snapshotMaxAgeMs: 1000,
+    });
+
+    expect(restored.size).toBe(0);
+    expect(restored.isComplete()).toBe(false);
+  });
+});
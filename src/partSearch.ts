@@ -0,0 +1,337 @@
+import { ApiConfig, ApiRequestOptions, PartCategory, PartDetails } from "./types";
+import { AvailablePartsPage, iterateAvailablePartPages } from "./api";
+
+/**
+ * A part that matched a search query
+ */
+export interface PartSearchResult {
+  part: PartDetails;
+  category: PartCategory;
+  /** Relevance - higher is better. Results are sorted by it. */
+  score: number;
+}
+
+export interface PartSearchOptions {
+  /** Categories to search (default: every category in the index) */
+  categories?: PartCategory[];
+  /** Maximum number of results (default: 20) */
+  limit?: number;
+}
+
+export interface PartSearchLoadOptions extends PartSearchOptions, ApiRequestOptions {}
+
+/**
+ * Serializable state of a part search index, for caching it between sessions
+ */
+export interface PartSearchSnapshot {
+  version: 1;
+  /** Time the snapshot was taken, in milliseconds since the epoch */
+  savedAt: number;
+  categories: Partial<
+    Record<PartCategory, { parts: PartDetails[]; nextSkip: number; complete: boolean }>
+  >;
+}
+
+export interface PartSearchIndexOptions {
+  /** Categories the index covers (default: every PartCategory) */
+  categories?: PartCategory[];
+  /** Parts requested per page (default and maximum: 100) */
+  pageSize?: number;
+  /** Previously saved index state to start from */
+  snapshot?: PartSearchSnapshot | null;
+  /** Ignore snapshots older than this, in milliseconds (default: 86400000 = 24 hours) */
+  snapshotMaxAgeMs?: number;
+}
+
+export interface PartSearchIndex {
+  /** Rank the parts loaded so far against `query` */
+  search(query: string, options?: PartSearchOptions): PartSearchResult[];
+  /**
+   * Search, loading further pages until `limit` results are found or every
+   * requested category is fully loaded. Call it on each keystroke with a fresh
+   * abort signal to cancel the previous lookup.
+   */
+  searchAndLoad(query: string, options?: PartSearchLoadOptions): Promise<PartSearchResult[]>;
+  /**
+   * Load the next page of a category. Resolves to whether more pages remain.
+   * Aborting `signal` stops waiting; a page already requested is still indexed.
+   */
+  loadNextPage(category: PartCategory, options?: ApiRequestOptions): Promise<boolean>;
+  /** Load every remaining page of the given categories (default: all) */
+  loadAll(options?: Omit<PartSearchLoadOptions, "limit">): Promise<void>;
+  /** Add parts fetched elsewhere, e.g. from `getAvailableParts` */
+  add(category: PartCategory, parts: PartDetails[]): void;
+  /** Whether every page of the category (or of all categories) has been loaded */
+  isComplete(category?: PartCategory): boolean;
+  /** Number of indexed parts */
+  readonly size: number;
+  /** Current state, to restore later through the `snapshot` option */
+  toSnapshot(): PartSearchSnapshot;
+}
+
+interface IndexedPart {
+  part: PartDetails;
+  category: PartCategory;
+  normalizedName: string;
+  tokens: string[];
+}
+
+interface CategoryState {
+  parts: IndexedPart[];
+  ids: Set<string>;
+  nextSkip: number;
+  complete: boolean;
+  loading: Promise<boolean> | null;
+  // Page iterator continuing at `nextSkip`, created on the first load
+  pages: AsyncGenerator<AvailablePartsPage, void, undefined> | null;
+}
+
+const DEFAULT_RESULT_LIMIT = 20;
+const DEFAULT_SNAPSHOT_MAX_AGE_MS = 24 * 60 * 60_000;
+
+// Lowercase, strip accents and punctuation, and split letters from digits
+// so "RTX4090", "rtx-4090" and "RTX 4090" all normalize the same way
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, "$1 $2")
+    .replace(/(\d)([a-z])/g, "$1 $2")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+// Stop waiting when the signal aborts, without cancelling the shared work itself
+const abortable = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+  if (!signal) return promise;
+  const abortReason = () =>
+    signal.reason ?? new DOMException("The operation was aborted", "AbortError");
+  if (signal.aborted) return Promise.reject(abortReason());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortReason());
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+  });
+};
+
+const tokenize = (text: string): string[] =>
+  normalizeSearchText(text).split(" ").filter(Boolean);
+
+// Levenshtein distance, giving up once it exceeds `max`
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Best match of one query token against a part's tokens:
+// exact 3, prefix 2, substring 1, typo (1 edit, 2 for long tokens) 0.5
+const scoreToken = (queryToken: string, tokens: string[]): number => {
+  let best = 0;
+  const maxEdits = queryToken.length >= 8 ? 2 : queryToken.length >= 4 ? 1 : 0;
+  for (const token of tokens) {
+    if (token === queryToken) return 3;
+    if (token.startsWith(queryToken)) best = Math.max(best, 2);
+    else if (token.includes(queryToken)) best = Math.max(best, 1);
+    else if (best < 0.5 && maxEdits > 0 && editDistance(queryToken, token, maxEdits) <= maxEdits) {
+      best = 0.5;
+    }
+  }
+  return best;
+};
+
+const scorePart = (queryTokens: string[], normalizedQuery: string, indexed: IndexedPart): number => {
+  let score = 0;
+  for (const queryToken of queryTokens) {
+    const tokenScore = scoreToken(queryToken, indexed.tokens);
+    // Every query token has to match something
+    if (tokenScore === 0) return 0;
+    score += tokenScore;
+  }
+  if (indexed.normalizedName.startsWith(normalizedQuery)) score += 2;
+  else if (indexed.normalizedName.includes(normalizedQuery)) score += 1;
+  return score;
+};
+
+/**
+ * Create a searchable index over the available-parts catalog. Pages are
+ * loaded on demand through `getAvailableParts`, so results improve as more
+ * of the catalog arrives.
+ *
+ * @example
+ * ```tsx
+ * const index = createPartSearchIndex(config, {
+ *   categories: [PartCategory.GPU],
+ *   snapshot: JSON.parse(localStorage.getItem('part-index') ?? 'null'),
+ * });
+ *
+ * const results = await index.searchAndLoad('rtx 4090', { limit: 10, signal });
+ * localStorage.setItem('part-index', JSON.stringify(index.toSnapshot()));
+ * ```
+ */
+export const createPartSearchIndex = (
+  config: ApiConfig,
+  options: PartSearchIndexOptions = {}
+): PartSearchIndex => {
+  const categories = options.categories ?? Object.values(PartCategory);
+  const snapshotMaxAgeMs = options.snapshotMaxAgeMs ?? DEFAULT_SNAPSHOT_MAX_AGE_MS;
+
+  const states = new Map<PartCategory, CategoryState>();
+  for (const category of categories) {
+    states.set(category, {
+      parts: [],
+      ids: new Set(),
+      nextSkip: 0,
+      complete: false,
+      loading: null,
+      pages: null,
+    });
+  }
+
+  const getState = (category: PartCategory): CategoryState => {
+    const state = states.get(category);
+    if (!state) {
+      throw new Error(`Category "${category}" is not part of this search index`);
+    }
+    return state;
+  };
+
+  const add = (category: PartCategory, parts: PartDetails[]) => {
+    const state = getState(category);
+    for (const part of parts) {
+      if (state.ids.has(part.id)) continue;
+      state.ids.add(part.id);
+      state.parts.push({
+        part,
+        category,
+        normalizedName: normalizeSearchText(part.name),
+        tokens: tokenize(part.name),
+      });
+    }
+  };
+
+  const snapshot = options.snapshot;
+  if (snapshot?.version === 1 && Date.now() - snapshot.savedAt <= snapshotMaxAgeMs) {
+    for (const category of categories) {
+      const saved = snapshot.categories[category];
+      if (!saved) continue;
+      add(category, saved.parts);
+      const state = getState(category);
+      state.nextSkip = saved.nextSkip;
+      state.complete = saved.complete;
+    }
+  }
+
+  const search = (query: string, searchOptions: PartSearchOptions = {}): PartSearchResult[] => {
+    const queryTokens = tokenize(query);
+    if (queryTokens.length === 0) return [];
+    const normalizedQuery = queryTokens.join(" ");
+
+    const results: PartSearchResult[] = [];
+    for (const category of searchOptions.categories ?? categories) {
+      for (const indexed of getState(category).parts) {
+        const score = scorePart(queryTokens, normalizedQuery, indexed);
+        if (score > 0) results.push({ part: indexed.part, category, score });
+      }
+    }
+
+    // Best score first, then shorter (more specific) names, then alphabetical
+    results.sort(
+      (a, b) =>
+        b.score - a.score ||
+        a.part.name.length - b.part.name.length ||
+        a.part.name.localeCompare(b.part.name)
+    );
+    return results.slice(0, searchOptions.limit ?? DEFAULT_RESULT_LIMIT);
+  };
+
+  const loadNextPage = (category: PartCategory, requestOptions?: ApiRequestOptions) => {
+    const state = getState(category);
+    if (state.complete) return Promise.resolve(false);
+    // One page request per category at a time, shared by every caller. Aborting
+    // only stops the caller waiting - the page still lands in the index.
+    if (state.loading) return abortable(state.loading, requestOptions?.signal);
+
+    state.pages ??= iterateAvailablePartPages(category, config, {
+      pageSize: options.pageSize,
+      skip: state.nextSkip,
+      prefetch: false,
+    });
+    state.loading = state.pages
+      .next()
+      .then((result) => {
+        const page = result.done ? { parts: [], hasNext: false } : result.value;
+        add(category, page.parts);
+        state.nextSkip += page.parts.length;
+        state.complete = !page.hasNext;
+        return page.hasNext;
+      })
+      .catch((error) => {
+        // A failed page ends the iterator - the next load starts a new one
+        state.pages = null;
+        throw error;
+      })
+      .finally(() => {
+        state.loading = null;
+      });
+    return abortable(state.loading, requestOptions?.signal);
+  };
+
+  const loadAll = async (loadOptions: Omit<PartSearchLoadOptions, "limit"> = {}) => {
+    for (const category of loadOptions.categories ?? categories) {
+      while (await loadNextPage(category, loadOptions)) {
+        // Keep loading
+      }
+    }
+  };
+
+  const searchAndLoad = async (query: string, loadOptions: PartSearchLoadOptions = {}) => {
+    const limit = loadOptions.limit ?? DEFAULT_RESULT_LIMIT;
+    const searchCategories = loadOptions.categories ?? categories;
+    for (;;) {
+      const results = search(query, { categories: searchCategories, limit });
+      const pending = searchCategories.find((category) => !getState(category).complete);
+      if (results.length >= limit || !pending) return results;
+      await loadNextPage(pending, loadOptions);
+    }
+  };
+
+  return {
+    search,
+    searchAndLoad,
+    loadNextPage,
+    loadAll,
+    add,
+    isComplete: (category) =>
+      category ? getState(category).complete : categories.every((c) => getState(c).complete),
+    get size() {
+      let size = 0;
+      states.forEach((state) => {
+        size += state.parts.length;
+      });
+      return size;
+    },
+    toSnapshot: () => {
+      const saved: PartSearchSnapshot["categories"] = {};
+      states.forEach((state, category) => {
+        saved[category] = {
+          parts: state.parts.map((indexed) => indexed.part),
+          nextSkip: state.nextSkip,
+          complete: state.complete,
+        };
+      });
+      return { version: 1, savedAt: Date.now(), categories: saved };
+    },
+  };
+};
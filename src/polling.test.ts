@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createAdaptivePollingStrategy, createFixedPollingStrategy } from "./polling";
+import { PollingContext } from "./types";
+
+const context = (pollCount: number, retryAfterMs?: number): PollingContext => ({
+  pollCount,
+  elapsedMs: 0,
+  status: "processing",
+  retryAfterMs,
+});
+
+describe("createAdaptivePollingStrategy", () => {
+  it("backs off from the initial delay up to the cap", () => {
+    const strategy = createAdaptivePollingStrategy({
+      initialDelayMs: 100,
+      backoffMultiplier: 2,
+      maxDelayMs: 500,
+    });
+
+    expect([1, 2, 3, 4, 5].map((pollCount) => strategy(context(pollCount)))).toEqual([
+      100, 200, 400, 500, 500,
+    ]);
+  });
+
+  it("follows Retry-After within the initial and maximum delay", () => {
+    const strategy = createAdaptivePollingStrategy({ initialDelayMs: 100, maxDelayMs: 500 });
+
+    expect(strategy(context(1, 300))).toBe(300);
+    expect(strategy(context(1, 0))).toBe(100);
+    expect(strategy(context(1, 60_000))).toBe(500);
+  });
+
+  it("ignores Retry-After when respectRetryAfter is false", () => {
+    const strategy = createAdaptivePollingStrategy({ initialDelayMs: 100, respectRetryAfter: false });
+
+    expect(strategy(context(1, 3000))).toBe(100);
+  });
+});
+
+describe("createFixedPollingStrategy", () => {
+  it("always waits the same interval", () => {
+    const strategy = createFixedPollingStrategy(250);
+
+    expect(strategy(context(1))).toBe(250);
+    expect(strategy(context(10, 4000))).toBe(250);
+  });
+});
@@ -0,0 +1,57 @@
+import { PollingContext, PollingStrategy } from "./types";
+
+export interface AdaptivePollingOptions {
+  /** Delay before the second status poll in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Factor applied to the delay after every poll (default: 1.5) */
+  backoffMultiplier?: number;
+  /** Longest delay between polls in milliseconds (default: 4000) */
+  maxDelayMs?: number;
+  /**
+   * Use the server's `Retry-After` hint instead of the computed delay when
+   * present, kept between `initialDelayMs` and `maxDelayMs` (default: true)
+   */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Polling strategy that checks quickly at first, then backs off up to a cap.
+ * Fast cache hits are picked up within half a second, while long cinematic
+ * renders settle at one status request every few seconds.
+ *
+ * @example
+ * ```tsx
+ * await renderByShareCode('abc123xyz', config, {
+ *   pollingStrategy: createAdaptivePollingStrategy({ maxDelayMs: 8000 }),
+ * });
+ * ```
+ */
+export const createAdaptivePollingStrategy = (
+  options: AdaptivePollingOptions = {}
+): PollingStrategy => {
+  const {
+    initialDelayMs = 500,
+    backoffMultiplier = 1.5,
+    maxDelayMs = 4000,
+    respectRetryAfter = true,
+  } = options;
+
+  return ({ pollCount, retryAfterMs }: PollingContext) => {
+    if (respectRetryAfter && retryAfterMs !== undefined) {
+      // A zero hint must not spin the loop, and a huge one must not outlast the cap
+      return Math.min(maxDelayMs, Math.max(initialDelayMs, retryAfterMs));
+    }
+    return Math.min(
+      maxDelayMs,
+      initialDelayMs * Math.pow(backoffMultiplier, Math.max(0, pollCount - 1))
+    );
+  };
+};
+
+/**
+ * Polling strategy with a constant delay between status polls
+ */
+export const createFixedPollingStrategy = (intervalMs: number): PollingStrategy => () =>
+  intervalMs;
+
+export const DEFAULT_POLLING_STRATEGY: PollingStrategy = createAdaptivePollingStrategy();
@@ -0,0 +1,157 @@
+import {
+  ApiConfig,
+  RenderBuildRequest,
+  RenderByShareCodeJobOptions,
+  RenderJobPollingOptions,
+  ResolvedRender,
+  SpriteLayout,
+} from "./types";
+import { renderBuild, renderByShareCode } from "./api";
+import { createRenderKey } from "./renderKey";
+import { assertValidRenderRequest } from "./validation";
+import type { SpriteRenderInput } from "./hooks/useSpriteRender";
+
+export interface ResolveRenderOptions extends RenderJobPollingOptions {
+  /**
+   * What to resolve (default: "sprite")
+   * - 'sprite': a sprite sheet for `BuildRender`
+   * - 'video': an MP4 for `BuildRenderVideo`
+   */
+  format?: "sprite" | "video";
+}
+
+/** @internal */
+export type RenderRequestTarget =
+  | { type: "parts"; request: RenderBuildRequest }
+  | { type: "shareCode"; shareCode: string; options: RenderByShareCodeJobOptions };
+
+/**
+ * The request a viewer submits for an input. `useSpriteRender`,
+ * `useBuildRender` and `resolveRender` all build it here, so a render
+ * resolved on the server has the same render key as the viewer's props.
+ *
+ * @internal
+ */
+export const toRenderRequest = (
+  input: RenderBuildRequest | SpriteRenderInput,
+  format: "sprite" | "video"
+): RenderRequestTarget => {
+  // A plain parts request renders exactly as given, apart from the format
+  if (!("type" in input)) {
+    return { type: "parts", request: format === "sprite" ? { ...input, format } : input };
+  }
+
+  const renderOptions = {
+    showGrid: input.showGrid,
+    scene: input.scene,
+    showBackground: input.showBackground,
+    winterMode: input.winterMode,
+    springMode: input.springMode,
+    cameraOffsetX: input.cameraOffsetX,
+    cameraZoom: input.cameraZoom,
+    gridSettings: input.gridSettings,
+    // Videos have no frames to choose - keep the sprite-only option off them
+    frameQuality: format === "sprite" ? input.frameQuality : undefined,
+  };
+  if (input.type === "shareCode") {
+    return {
+      type: "shareCode",
+      shareCode: input.shareCode,
+      options: { format, profile: input.profile, ...renderOptions },
+    };
+  }
+  return {
+    type: "parts",
+    request: {
+      ...input.parts,
+      format: format === "sprite" ? format : input.parts.format,
+      ...renderOptions,
+    },
+  };
+};
+
+/**
+ * Sprite sheet grid expected for a frame quality: 12 columns of 6 rows
+ * (72 frames), or 12 rows (144 frames) for "high". Only used when the render
+ * service does not report the grid.
+ *
+ * @internal
+ */
+export const spriteLayoutFor = (frameQuality?: "standard" | "high"): SpriteLayout => {
+  const rows = frameQuality === "high" ? 12 : 6;
+  return { cols: 12, rows, totalFrames: 12 * rows };
+};
+
+// Pre-resolved renders are keyed without the auth identity: the server
+// resolves them with an API key, the browser renders with session tokens
+const initialRenderKey = (target: RenderRequestTarget, config: ApiConfig): string =>
+  createRenderKey(target, { baseUrl: config.baseUrl, environment: config.environment });
+
+/**
+ * Whether a pre-resolved render can stand in for the render of `target`
+ *
+ * @internal
+ */
+export const matchesInitialRender = (
+  initialRender: ResolvedRender | null | undefined,
+  format: "sprite" | "video",
+  target: RenderRequestTarget,
+  config: ApiConfig
+): initialRender is ResolvedRender =>
+  !!initialRender &&
+  initialRender.version === 1 &&
+  initialRender.format === format &&
+  initialRender.renderKey === initialRenderKey(target, config) &&
+  !!initialRender.url;
+
+/**
+ * Render a build ahead of time - typically on the server - and return the
+ * result as plain JSON for the `initialRender` prop of `BuildRender` or
+ * `BuildRenderVideo`. A viewer given a matching render shows it immediately
+ * without calling the render API.
+ *
+ * Pass the same input and render options the viewer gets as props: the
+ * result only applies while its render key matches. Safe to import in
+ * server bundles - it does not touch `window` or the DOM.
+ *
+ * @example
+ * ```tsx
+ * // app/builds/[shareCode]/page.tsx (Next.js server component)
+ * const initialRender = await resolveRender(
+ *   { type: 'shareCode', shareCode, frameQuality: 'high' },
+ *   { environment: 'prod', authToken: process.env.BUILDCORES_API_KEY }
+ * );
+ *
+ * return <BuildRender shareCode={shareCode} frameQuality="high" initialRender={initialRender} />;
+ * ```
+ */
+export const resolveRender = async (
+  input: RenderBuildRequest | SpriteRenderInput,
+  config: ApiConfig,
+  options: ResolveRenderOptions = {}
+): Promise<ResolvedRender> => {
+  const { format = "sprite", ...pollingOptions } = options;
+  const target = toRenderRequest(input, format);
+  // Fail fast on invalid options instead of spending a round-trip on a 400
+  assertValidRenderRequest(
+    target.type === "parts" ? target.request : { shareCode: target.shareCode, ...target.options }
+  );
+
+  const result =
+    target.type === "parts"
+      ? await renderBuild(target.request, config, pollingOptions)
+      : await renderByShareCode(target.shareCode, config, { ...target.options, ...pollingOptions });
+  const frameQuality =
+    target.type === "parts" ? target.request.frameQuality : target.options.frameQuality;
+
+  return {
+    version: 1,
+    format,
+    url: result.videoUrl,
+    renderKey: initialRenderKey(target, config),
+    jobId: result.jobId ?? null,
+    screenshotUrl: result.screenshotUrl ?? null,
+    layout: format === "sprite" ? result.spriteLayout ?? spriteLayoutFor(frameQuality) : null,
+    resolvedAt: new Date().toISOString(),
+  };
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { createRenderCache } from "./renderCache";
+import { RenderCacheStore } from "./types";
+
+const createMemoryStore = (): RenderCacheStore & { entries: Map<string, string> } => {
+  const entries = new Map<string, string>();
+  return {
+    entries,
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => void entries.set(key, value),
+    removeItem: (key) => void entries.delete(key),
+    keys: () => [...entries.keys()],
+  };
+};
+
+describe("createRenderCache", () => {
+  const result = {
+    videoUrl: "https://cdn.example/sprite.png",
+    jobId: "job-1",
+    spriteLayout: { cols: 10, rows: 8, totalFrames: 75 },
+  };
+
+  it("returns the whole stored result", async () => {
+    const cache = createRenderCache();
+    await cache.set("key", result);
+
+    expect(cache.peek("key")).toEqual(result);
+    expect(await cache.get("key")).toEqual(result);
+  });
+
+  it("reads results back from the persistent store", async () => {
+    const store = createMemoryStore();
+    await createRenderCache({ store }).set("key", result);
+
+    expect(await createRenderCache({ store }).get("key")).toEqual(result);
+  });
+
+  it("drops expired entries", async () => {
+    const store = createMemoryStore();
+    const cache = createRenderCache({ store });
+    await cache.set("key", result, -1);
+
+    expect(cache.peek("key")).toBeNull();
+    expect(await cache.get("key")).toBeNull();
+    expect(store.entries.size).toBe(0);
+  });
+});
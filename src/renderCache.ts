@@ -0,0 +1,192 @@
+import {
+  RenderBuildAsyncResponse,
+  RenderCache,
+  RenderCacheOptions,
+  RenderCacheStore,
+} from "./types";
+
+interface CachedRender {
+  result: RenderBuildAsyncResponse;
+  expiresAt: number;
+}
+
+const DEFAULT_CACHE_TTL_MS = 30 * 60_000;
+const DEFAULT_MAX_ENTRIES = 200;
+const DEFAULT_KEY_PREFIX = "buildcores:render-cache:";
+
+/**
+ * Create a render result cache. Entries are kept in memory and, when a
+ * `store` is given, written through to it so they survive page reloads.
+ *
+ * @example
+ * ```tsx
+ * const cache = createRenderCache({ ttlMs: 60 * 60_000 });
+ * const { videoUrl } = await renderBuild(request, config, { cache });
+ * ```
+ */
+export const createRenderCache = (options: RenderCacheOptions = {}): RenderCache => {
+  const ttlMs = options.ttlMs ?? DEFAULT_CACHE_TTL_MS;
+  const maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  const keyPrefix = options.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  const store = options.store;
+  const memory = new Map<string, CachedRender>();
+
+  const remember = (key: string, entry: CachedRender) => {
+    // Re-insert so Map order doubles as least-recently-used order
+    memory.delete(key);
+    memory.set(key, entry);
+    while (memory.size > maxEntries) {
+      const oldest = memory.keys().next().value as string;
+      memory.delete(oldest);
+    }
+  };
+
+  const peek = (key: string): RenderBuildAsyncResponse | null => {
+    const entry = memory.get(key);
+    if (!entry) return null;
+    if (!(entry.expiresAt > Date.now())) {
+      memory.delete(key);
+      return null;
+    }
+    remember(key, entry);
+    return entry.result;
+  };
+
+  // Storage failures (quota, blocked storage) must never break rendering,
+  // so the persistent layer behaves as a cache miss when it throws
+  return {
+    peek,
+
+    get: async (key) => {
+      const cached = peek(key);
+      if (cached || !store) return cached;
+      try {
+        const raw = await store.getItem(keyPrefix + key);
+        if (!raw) return null;
+        const entry = JSON.parse(raw) as CachedRender | null;
+        if (!entry?.result?.videoUrl || !(entry.expiresAt > Date.now())) {
+          await store.removeItem(keyPrefix + key);
+          return null;
+        }
+        remember(key, entry);
+        return entry.result;
+      } catch {
+        return null;
+      }
+    },
+
+    set: async (key, result, entryTtlMs = ttlMs) => {
+      const entry: CachedRender = { result, expiresAt: Date.now() + entryTtlMs };
+      remember(key, entry);
+      if (!store) return;
+      try {
+        await store.setItem(keyPrefix + key, JSON.stringify(entry));
+      } catch {
+        // Ignore - the entry stays in memory
+      }
+    },
+
+    invalidate: async (key) => {
+      memory.delete(key);
+      if (!store) return;
+      try {
+        await store.removeItem(keyPrefix + key);
+      } catch {
+        // Ignore
+      }
+    },
+
+    clear: async () => {
+      memory.clear();
+      if (!store) return;
+      try {
+        const keys = await store.keys();
+        await Promise.all(
+          keys.filter((key) => key.startsWith(keyPrefix)).map((key) => store.removeItem(key))
+        );
+      } catch {
+        // Ignore
+      }
+    },
+  };
+};
+
+/**
+ * Memory-only cache shared by `useSpriteRender` and `useBuildRender` unless
+ * they are given their own `cache`
+ */
+export const defaultRenderCache = createRenderCache();
+
+/**
+ * localStorage-backed cache store. Returns undefined when localStorage is
+ * unavailable (server rendering, privacy mode), so the cache stays memory-only.
+ */
+export const createLocalStorageRenderCacheStore = (): RenderCacheStore | undefined => {
+  try {
+    if (typeof window === "undefined" || !window.localStorage) return undefined;
+    const storage = window.localStorage;
+    return {
+      getItem: (key) => storage.getItem(key),
+      setItem: (key, value) => storage.setItem(key, value),
+      removeItem: (key) => storage.removeItem(key),
+      keys: () => Array.from({ length: storage.length }, (_, index) => storage.key(index) ?? ""),
+    };
+  } catch {
+    // Accessing localStorage throws when storage is blocked
+    return undefined;
+  }
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * IndexedDB-backed cache store for larger caches. Returns undefined when
+ * IndexedDB is unavailable, so the cache stays memory-only.
+ *
+ * @param databaseName - IndexedDB database to use (default: "buildcores-render-cache")
+ */
+export const createIndexedDbRenderCacheStore = (
+  databaseName = "buildcores-render-cache"
+): RenderCacheStore | undefined => {
+  if (typeof indexedDB === "undefined") return undefined;
+
+  const objectStoreName = "entries";
+  let database: Promise<IDBDatabase> | null = null;
+  const openDatabase = () => {
+    database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(databaseName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(objectStoreName);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return database;
+  };
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (objectStore: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase();
+    return promisifyRequest(run(db.transaction(objectStoreName, mode).objectStore(objectStoreName)));
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await withStore("readonly", (objectStore) => objectStore.get(key));
+      return typeof value === "string" ? value : null;
+    },
+    setItem: async (key, value) => {
+      await withStore("readwrite", (objectStore) => objectStore.put(value, key));
+    },
+    removeItem: async (key) => {
+      await withStore("readwrite", (objectStore) => objectStore.delete(key));
+    },
+    keys: async () => {
+      const keys = await withStore("readonly", (objectStore) => objectStore.getAllKeys());
+      return keys.map(String);
+    },
+  };
+};
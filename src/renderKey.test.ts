@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { createRenderKey, RenderKeyInput } from "./renderKey";
+import { PartCategory } from "./types";
+
+const input: RenderKeyInput = {
+  type: "parts",
+  request: { parts: { [PartCategory.CPU]: ["cpu-1"], [PartCategory.GPU]: ["gpu-2", "gpu-1"] } },
+};
+
+const session = async () => ({ token: "session-token", expiresAt: new Date().toISOString() });
+
+describe("createRenderKey", () => {
+  it("ignores part order and unset options", () => {
+    const reordered: RenderKeyInput = {
+      type: "parts",
+      request: {
+        parts: { [PartCategory.GPU]: ["gpu-1", "gpu-2"], [PartCategory.CPU]: ["cpu-1"], [PartCategory.RAM]: [] },
+        format: undefined,
+      },
+    };
+
+    expect(createRenderKey(reordered)).toBe(createRenderKey(input));
+  });
+
+  it("differs per API host and environment", () => {
+    const key = createRenderKey(input, { environment: "prod" });
+
+    expect(createRenderKey(input, { environment: "staging" })).not.toBe(key);
+    expect(createRenderKey(input, { baseUrl: "https://mock.local", environment: "prod" })).not.toBe(key);
+  });
+
+  it("differs per auth token without containing it", () => {
+    const key = createRenderKey(input, { authToken: "tenant-a" });
+
+    expect(createRenderKey(input, { authToken: "tenant-a" })).toBe(key);
+    expect(createRenderKey(input, { authToken: "tenant-b" })).not.toBe(key);
+    expect(createRenderKey(input)).not.toBe(key);
+    expect(key).not.toContain("tenant-a");
+  });
+
+  it("differs per session token supplier", () => {
+    const other = async () => ({ token: "session-token", expiresAt: new Date().toISOString() });
+    const key = createRenderKey(input, { getRenderSessionToken: session });
+
+    expect(createRenderKey(input, { getRenderSessionToken: session, authToken: "ignored" })).toBe(key);
+    expect(createRenderKey(input, { getRenderSessionToken: other })).not.toBe(key);
+    expect(createRenderKey(input, { authMode: "legacy", getRenderSessionToken: session })).not.toBe(key);
+  });
+});
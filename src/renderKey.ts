@@ -0,0 +1,135 @@
+import { ApiConfig, PartCategory, RenderBuildRequest } from "./types";
+import { RENDER_OPTION_KEYS, RenderOptionKey } from "./requestSerializer";
+
+export type RenderKeyInput =
+  | { type: "parts"; request: RenderBuildRequest }
+  | { type: "shareCode"; shareCode: string; options?: Partial<Record<RenderOptionKey, unknown>> };
+
+// JSON with sorted object keys and without undefined values, so equal inputs
+// always serialize to the same string
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Same semantics as arePartsEqual: order inside a category does not matter
+// and an empty category is the same as a missing one
+const canonicalizeParts = (parts: RenderBuildRequest["parts"]) => {
+  const canonical: Partial<Record<PartCategory, string[]>> = {};
+  for (const category of Object.values(PartCategory)) {
+    const ids = parts[category];
+    if (ids && ids.length > 0) {
+      canonical[category] = [...new Set(ids)].sort();
+    }
+  }
+  return canonical;
+};
+
+const pickRenderOptions = (source: Record<string, unknown> | undefined) => {
+  const picked: Record<string, unknown> = {};
+  if (!source) return picked;
+  for (const key of RENDER_OPTION_KEYS) {
+    picked[key] = source[key];
+  }
+  return picked;
+};
+
+// cyrb53 - fast 53-bit string hash, plenty for cache and storage keys
+const hashString = (input: string): string => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < input.length; i++) {
+    const ch = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+type RenderKeyConfig = Pick<
+  ApiConfig,
+  "baseUrl" | "environment" | "authMode" | "authToken" | "getRenderSessionToken"
+>;
+
+type SessionTokenSupplier = NonNullable<ApiConfig["getRenderSessionToken"]>;
+
+// Session suppliers are numbered in first-use order - the supplier is also
+// what session tokens are cached by
+const sessionSupplierIds = new WeakMap<SessionTokenSupplier, number>();
+let nextSessionSupplierId = 1;
+
+// Who the render is made for: a hash of the API key, or the session token
+// supplier. Never the raw token, since keys end up in storage.
+const resolveAuthIdentity = (config?: RenderKeyConfig): string | undefined => {
+  const supplier = config?.getRenderSessionToken;
+  const authMode = config?.authMode ?? (supplier ? "session" : "legacy");
+  if (authMode === "session") {
+    if (!supplier) return undefined;
+    let id = sessionSupplierIds.get(supplier);
+    if (id === undefined) {
+      id = nextSessionSupplierId++;
+      sessionSupplierIds.set(supplier, id);
+    }
+    return `session:${id}`;
+  }
+  return config?.authToken ? `token:${hashString(config.authToken)}` : undefined;
+};
+
+/**
+ * Canonical string for a render input: part order, key order and unset
+ * options do not affect it. The API host and environment are included
+ * because job IDs and asset URLs are only valid for the API that issued them,
+ * and the auth identity (a hash of `authToken`, or the `getRenderSessionToken`
+ * supplier) so callers with different credentials never share renders.
+ */
+export const canonicalizeRenderInput = (
+  input: RenderKeyInput,
+  config?: RenderKeyConfig
+): string => {
+  const target = {
+    baseUrl: config?.baseUrl,
+    environment: config?.environment,
+    identity: resolveAuthIdentity(config),
+  };
+  if (input.type === "parts") {
+    return stableStringify({
+      type: "parts",
+      target,
+      parts: canonicalizeParts(input.request.parts),
+      options: pickRenderOptions(input.request as unknown as Record<string, unknown>),
+    });
+  }
+  return stableStringify({
+    type: "shareCode",
+    target,
+    shareCode: input.shareCode,
+    options: pickRenderOptions(input.options),
+  });
+};
+
+/**
+ * Short, stable hash of a render input for use as a cache or storage key.
+ * Pass the same `ApiConfig` the render was made with: keys of different
+ * credentials differ, so shared caches and schedulers keep callers apart.
+ *
+ * @example
+ * ```tsx
+ * createRenderKey({ type: 'shareCode', shareCode: 'abc123xyz', options: { format: 'sprite' } });
+ * // => "shareCode:<hash>"
+ * ```
+ */
+export const createRenderKey = (
+  input: RenderKeyInput,
+  config?: RenderKeyConfig
+): string => `${input.type}:${hashString(canonicalizeRenderInput(input, config))}`;
@@ -0,0 +1,179 @@
+import { describe, expect, it } from "vitest";
+import { renderBuild } from "./api";
+import { isAbortError } from "./errors";
+import { createRenderScheduler } from "./renderScheduler";
+import { createMockRenderApi } from "./testing";
+import { ApiConfig, PartCategory, RenderBuildRequest } from "./types";
+
+const FAST_RETRY = { initialDelayMs: 1, jitter: false };
+
+const setup = () => {
+  const mock = createMockRenderApi({ lifecycle: [{ status: "queued" }, { status: "completed" }] });
+  const configFor = (authToken: string): ApiConfig => ({
+    baseUrl: "https://mock.local",
+    authToken,
+    fetch: mock.fetch,
+    retry: FAST_RETRY,
+    jobCreationRetry: FAST_RETRY,
+  });
+  const request: RenderBuildRequest = {
+    parts: { [PartCategory.CPU]: [mock.parts[0].id] },
+  };
+  return { mock, configFor, request };
+};
+
+describe("renderBuild with a scheduler", () => {
+  it("shares one job between identical requests", async () => {
+    const { mock, configFor, request } = setup();
+    const scheduler = createRenderScheduler();
+    const config = configFor("tenant-a");
+
+    const [first, second] = await Promise.all([
+      renderBuild(request, config, { pollIntervalMs: 1, scheduler }),
+      renderBuild(request, { ...config }, { pollIntervalMs: 1, scheduler }),
+    ]);
+
+    expect(second).toEqual(first);
+    expect(mock.jobs.size).toBe(1);
+  });
+
+  it("does not share jobs between configs with different credentials", async () => {
+    const { mock, configFor, request } = setup();
+    const scheduler = createRenderScheduler();
+
+    const [first, second] = await Promise.all([
+      renderBuild(request, configFor("tenant-a"), { pollIntervalMs: 1, scheduler }),
+      renderBuild(request, configFor("tenant-b"), { pollIntervalMs: 1, scheduler }),
+    ]);
+
+    expect(first.jobId).not.toBe(second.jobId);
+    const creations = mock.requests.filter(({ method }) => method === "POST");
+    expect(creations.map(({ headers }) => headers.get("Authorization"))).toEqual([
+      "Bearer tenant-a",
+      "Bearer tenant-b",
+    ]);
+  });
+});
+
+// A task that stays pending until the test resolves it
+const deferredTask = (log: string[], name: string) => {
+  let resolve!: (value: string) => void;
+  let signal!: AbortSignal;
+  const task = (taskSignal: AbortSignal) => {
+    signal = taskSignal;
+    log.push(name);
+    return new Promise<string>((done) => {
+      resolve = done;
+    });
+  };
+  return {
+    task,
+    resolve: (value = name) => resolve(value),
+    get signal() {
+      return signal;
+    },
+  };
+};
+
+// Let started tasks run up to their first await
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("createRenderScheduler", () => {
+  it("runs at most maxConcurrent tasks at once", async () => {
+    const scheduler = createRenderScheduler({ maxConcurrent: 2 });
+    const started: string[] = [];
+    const tasks = ["a", "b", "c"].map((name) => deferredTask(started, name));
+    const results = tasks.map((entry, index) => scheduler.schedule(`key-${index}`, entry.task));
+    await flush();
+
+    expect(started).toEqual(["a", "b"]);
+    expect(scheduler.getStats()).toEqual({ running: 2, queued: 1 });
+
+    tasks[0].resolve();
+    await flush();
+    expect(started).toEqual(["a", "b", "c"]);
+
+    tasks[1].resolve();
+    tasks[2].resolve();
+    expect(await Promise.all(results)).toEqual(["a", "b", "c"]);
+    expect(scheduler.getStats()).toEqual({ running: 0, queued: 0 });
+  });
+
+  it("starts queued tasks by priority, then in order", async () => {
+    const scheduler = createRenderScheduler({ maxConcurrent: 1 });
+    const started: string[] = [];
+    const blocker = deferredTask(started, "blocker");
+    const low = deferredTask(started, "low");
+    const first = deferredTask(started, "first");
+    const second = deferredTask(started, "second");
+
+    const pending = [
+      scheduler.schedule("blocker", blocker.task),
+      scheduler.schedule("low", low.task, { priority: -1 }),
+      scheduler.schedule("first", first.task, { priority: 5 }),
+      scheduler.schedule("second", second.task, { priority: 5 }),
+    ];
+    scheduler.prioritize("low", 10);
+
+    for (const entry of [blocker, low, first, second]) {
+      await flush();
+      entry.resolve();
+    }
+    await Promise.all(pending);
+
+    expect(started).toEqual(["blocker", "low", "first", "second"]);
+  });
+
+  it("shares a task between callers with the same key", async () => {
+    const scheduler = createRenderScheduler();
+    const started: string[] = [];
+    const shared = deferredTask(started, "shared");
+
+    const first = scheduler.schedule("key", shared.task);
+    const second = scheduler.schedule("key", deferredTask(started, "duplicate").task);
+    await flush();
+    shared.resolve("result");
+
+    expect(await Promise.all([first, second])).toEqual(["result", "result"]);
+    expect(started).toEqual(["shared"]);
+  });
+
+  it("keeps a shared task running until every caller aborted", async () => {
+    const scheduler = createRenderScheduler();
+    const shared = deferredTask([], "shared");
+    const firstCaller = new AbortController();
+    const secondCaller = new AbortController();
+
+    const first = scheduler.schedule("key", shared.task, { signal: firstCaller.signal });
+    const second = scheduler.schedule("key", shared.task, { signal: secondCaller.signal });
+    await flush();
+
+    firstCaller.abort();
+    expect(isAbortError(await first.catch((caught) => caught))).toBe(true);
+    expect(shared.signal.aborted).toBe(false);
+
+    secondCaller.abort();
+    expect(isAbortError(await second.catch((caught) => caught))).toBe(true);
+    expect(shared.signal.aborted).toBe(true);
+  });
+
+  it("cancels queued and running tasks by key", async () => {
+    const scheduler = createRenderScheduler({ maxConcurrent: 1 });
+    const started: string[] = [];
+    const running = deferredTask(started, "running");
+    const queued = deferredTask(started, "queued");
+
+    const runningResult = scheduler.schedule("running", running.task);
+    const queuedResult = scheduler.schedule("queued", queued.task);
+    await flush();
+
+    scheduler.cancel("queued");
+    expect(isAbortError(await queuedResult.catch((caught) => caught))).toBe(true);
+
+    scheduler.cancel("running", new Error("Stopped"));
+    expect(running.signal.aborted).toBe(true);
+    running.resolve();
+    expect(await runningResult).toBe("running");
+    expect(started).toEqual(["running"]);
+  });
+});
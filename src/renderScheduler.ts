@@ -0,0 +1,184 @@
+import {
+  RenderJobStatusEvent,
+  RenderScheduleOptions,
+  RenderScheduler,
+  RenderSchedulerOptions,
+} from "./types";
+
+interface Subscriber {
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  onStatus?: (event: RenderJobStatusEvent) => void;
+}
+
+interface ScheduledTask {
+  key: string;
+  task: (signal: AbortSignal, emitStatus: (event: RenderJobStatusEvent) => void) => Promise<unknown>;
+  priority: number;
+  // Insertion order, so equal priorities run first-in first-out
+  sequence: number;
+  controller: AbortController;
+  subscribers: Set<Subscriber>;
+  lastStatus?: RenderJobStatusEvent;
+  running: boolean;
+}
+
+const DEFAULT_MAX_CONCURRENT = 4;
+
+const abortReason = (signal?: AbortSignal, reason?: unknown): unknown =>
+  reason ?? signal?.reason ?? new DOMException("The operation was aborted", "AbortError");
+
+/**
+ * Create a render scheduler that coalesces identical requests and limits
+ * how many render jobs are in flight at once
+ *
+ * @example
+ * ```tsx
+ * const scheduler = createRenderScheduler({ maxConcurrent: 2 });
+ * const results = await Promise.all(
+ *   shareCodes.map((shareCode) => renderByShareCode(shareCode, config, { scheduler }))
+ * );
+ * ```
+ */
+export const createRenderScheduler = (options: RenderSchedulerOptions = {}): RenderScheduler => {
+  const maxConcurrent = Math.max(1, options.maxConcurrent ?? DEFAULT_MAX_CONCURRENT);
+  // Tasks that callers can still join, queued or running
+  const tasks = new Map<string, ScheduledTask>();
+  const queue: ScheduledTask[] = [];
+  let running = 0;
+  let sequence = 0;
+
+  const settle = (scheduled: ScheduledTask, notify: (subscriber: Subscriber) => void) => {
+    if (tasks.get(scheduled.key) === scheduled) tasks.delete(scheduled.key);
+    running -= 1;
+    const subscribers = [...scheduled.subscribers];
+    scheduled.subscribers.clear();
+    subscribers.forEach(notify);
+    pump();
+  };
+
+  const start = (scheduled: ScheduledTask) => {
+    scheduled.running = true;
+    running += 1;
+    const emitStatus = (event: RenderJobStatusEvent) => {
+      scheduled.lastStatus = event;
+      scheduled.subscribers.forEach((subscriber) => subscriber.onStatus?.(event));
+    };
+    // Promise.resolve().then keeps a synchronous throw inside the task a rejection
+    Promise.resolve()
+      .then(() => scheduled.task(scheduled.controller.signal, emitStatus))
+      .then(
+        (value) => settle(scheduled, (subscriber) => subscriber.resolve(value)),
+        (error) => settle(scheduled, (subscriber) => subscriber.reject(error))
+      );
+  };
+
+  const pump = () => {
+    while (running < maxConcurrent && queue.length > 0) {
+      let next = 0;
+      for (let i = 1; i < queue.length; i++) {
+        const candidate = queue[i];
+        const best = queue[next];
+        if (
+          candidate.priority > best.priority ||
+          (candidate.priority === best.priority && candidate.sequence < best.sequence)
+        ) {
+          next = i;
+        }
+      }
+      const [scheduled] = queue.splice(next, 1);
+      start(scheduled);
+    }
+  };
+
+  // Remove a task nobody is waiting for: drop it from the queue, or abort it if running
+  const abandon = (scheduled: ScheduledTask, reason: unknown) => {
+    if (tasks.get(scheduled.key) === scheduled) tasks.delete(scheduled.key);
+    if (scheduled.running) {
+      scheduled.controller.abort(reason);
+      return;
+    }
+    const index = queue.indexOf(scheduled);
+    if (index !== -1) queue.splice(index, 1);
+  };
+
+  return {
+    schedule: <T>(
+      key: string,
+      task: (signal: AbortSignal, emitStatus: (event: RenderJobStatusEvent) => void) => Promise<T>,
+      scheduleOptions: RenderScheduleOptions = {}
+    ): Promise<T> => {
+      const { signal, onStatus } = scheduleOptions;
+      const priority = scheduleOptions.priority ?? 0;
+      if (signal?.aborted) return Promise.reject(abortReason(signal));
+
+      let scheduled = tasks.get(key);
+      if (scheduled) {
+        // A more urgent caller pulls a shared queued task forward
+        if (!scheduled.running) scheduled.priority = Math.max(scheduled.priority, priority);
+      } else {
+        scheduled = {
+          key,
+          task,
+          priority,
+          sequence: sequence++,
+          controller: new AbortController(),
+          subscribers: new Set(),
+          running: false,
+        };
+        tasks.set(key, scheduled);
+        queue.push(scheduled);
+      }
+      const joined = scheduled;
+
+      return new Promise<T>((resolve, reject) => {
+        const onAbort = () => {
+          if (!joined.subscribers.delete(subscriber)) return;
+          reject(abortReason(signal));
+          if (joined.subscribers.size === 0) abandon(joined, abortReason(signal));
+        };
+        const subscriber: Subscriber = {
+          resolve: (value) => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve(value as T);
+          },
+          reject: (reason) => {
+            signal?.removeEventListener("abort", onAbort);
+            reject(reason);
+          },
+          onStatus,
+        };
+
+        joined.subscribers.add(subscriber);
+        signal?.addEventListener("abort", onAbort, { once: true });
+        if (joined.lastStatus) onStatus?.(joined.lastStatus);
+        pump();
+      });
+    },
+
+    prioritize: (key, priority) => {
+      const scheduled = tasks.get(key);
+      if (scheduled && !scheduled.running) scheduled.priority = priority;
+    },
+
+    cancel: (key, reason) => {
+      const scheduled = tasks.get(key);
+      if (!scheduled) return;
+      const abortError = abortReason(undefined, reason);
+      abandon(scheduled, abortError);
+      if (!scheduled.running) {
+        const subscribers = [...scheduled.subscribers];
+        scheduled.subscribers.clear();
+        subscribers.forEach((subscriber) => subscriber.reject(abortError));
+      }
+    },
+
+    getStats: () => ({ running, queued: queue.length }),
+  };
+};
+
+/**
+ * Scheduler shared by `useSpriteRender` and `useBuildRender` unless they are
+ * given their own `scheduler`
+ */
+export const defaultRenderScheduler = createRenderScheduler();
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from "vitest";
+import { buildRenderRequestBody, serializeRenderRequest } from "./requestSerializer";
+import { PartCategory, RenderBuildRequest } from "./types";
+
+const parts = { [PartCategory.GPU]: ["z7pyphm9k"] };
+
+describe("serializeRenderRequest", () => {
+  it("sends every option /render-build accepts, in a fixed order", () => {
+    const request: RenderBuildRequest = {
+      parts,
+      cameraZoom: 1.2,
+      format: "sprite",
+      frameQuality: "high",
+      gridSettings: { cellThickness: 1 },
+    };
+
+    const { body, warnings } = serializeRenderRequest("/render-build", request);
+
+    expect(Object.keys(body)).toEqual(["parts", "format", "cameraZoom", "gridSettings", "frameQuality"]);
+    expect(warnings).toEqual([]);
+  });
+
+  it("drops frameQuality from video renders with a warning", () => {
+    const { body, warnings } = serializeRenderRequest("/render-by-share-code", {
+      shareCode: "abc123xyz",
+      frameQuality: "high",
+    });
+
+    expect(body).toEqual({ shareCode: "abc123xyz" });
+    expect(warnings).toMatchObject([{ code: "unsupported_option", field: "frameQuality" }]);
+  });
+
+  it("only sends the legacy options to /render-build-experimental", () => {
+    const { body, warnings } = serializeRenderRequest("/render-build-experimental", {
+      parts,
+      format: "video",
+      scene: "studio",
+      cameraOffsetX: 0.1,
+      cameraZoom: 1.5,
+      gridSettings: { cellThickness: 1 },
+    });
+
+    expect(body).toEqual({ parts, format: "video", scene: "studio" });
+    expect(warnings.map(({ code, field }) => `${code} ${field}`)).toEqual([
+      "unsupported_option cameraOffsetX",
+      "unsupported_option cameraZoom",
+      "unsupported_option gridSettings",
+    ]);
+  });
+
+  it("reports fields that are not render options", () => {
+    const { body, warnings } = serializeRenderRequest("/render-build", {
+      parts,
+      cameraAngle: 30,
+    } as RenderBuildRequest);
+
+    expect(body).toEqual({ parts });
+    expect(warnings).toMatchObject([{ code: "unknown_option", field: "cameraAngle" }]);
+  });
+
+  it("does not send or report options that are undefined", () => {
+    const { body, warnings } = serializeRenderRequest("/render-build-experimental", {
+      parts,
+      cameraZoom: undefined,
+    });
+
+    expect(body).toEqual({ parts });
+    expect(warnings).toEqual([]);
+  });
+});
+
+describe("buildRenderRequestBody", () => {
+  it("reports warnings through onWarning and never logs", () => {
+    const onWarning = vi.fn();
+    const consoleWarn = vi.spyOn(console, "warn").mockImplementation(() => {});
+
+    const body = buildRenderRequestBody(
+      "/render-build",
+      { parts, frameQuality: "high" },
+      { onWarning }
+    );
+    buildRenderRequestBody("/render-build", { parts, frameQuality: "high" }, {});
+
+    expect(JSON.parse(body)).toEqual({ parts });
+    expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ field: "frameQuality" }));
+    expect(consoleWarn).not.toHaveBeenCalled();
+    consoleWarn.mockRestore();
+  });
+});
@@ -0,0 +1,156 @@
+import {
+  ApiConfig,
+  RenderBuildRequest,
+  RenderByShareCodeOptions,
+  RenderJobPollingOptions,
+  RenderRequestWarning,
+} from "./types";
+
+/**
+ * Render options that change the rendered output, in the order they are serialized
+ */
+export const RENDER_OPTION_KEYS = [
+  "format",
+  "width",
+  "height",
+  "profile",
+  "scene",
+  "showBackground",
+  "showGrid",
+  "winterMode",
+  "springMode",
+  "cameraOffsetX",
+  "cameraZoom",
+  "gridSettings",
+  "frameQuality",
+] as const;
+
+export type RenderOptionKey = (typeof RENDER_OPTION_KEYS)[number];
+
+/**
+ * Endpoints that accept a JSON render request body
+ */
+export type RenderRequestEndpoint =
+  | "/render-build"
+  | "/render-by-share-code"
+  | "/render-build-experimental";
+
+// How each endpoint identifies the build
+const RENDER_ENDPOINT_BUILD_FIELD: Record<RenderRequestEndpoint, "parts" | "shareCode"> = {
+  "/render-build": "parts",
+  "/render-by-share-code": "shareCode",
+  "/render-build-experimental": "parts",
+};
+
+// Options each endpoint accepts (docs/technical/backend-api-reference.md).
+// The legacy pregenerated endpoint predates the camera, grid and frame-quality options.
+const RENDER_ENDPOINT_OPTIONS: Record<RenderRequestEndpoint, readonly RenderOptionKey[]> = {
+  "/render-build": RENDER_OPTION_KEYS,
+  "/render-by-share-code": RENDER_OPTION_KEYS,
+  "/render-build-experimental": [
+    "format",
+    "width",
+    "height",
+    "profile",
+    "scene",
+    "showBackground",
+    "showGrid",
+    "winterMode",
+    "springMode",
+  ],
+};
+
+// Options that only have an effect for one output format
+const FORMAT_SPECIFIC_OPTIONS: Partial<Record<RenderOptionKey, "video" | "sprite">> = {
+  frameQuality: "sprite",
+};
+
+export type RenderRequestInput =
+  | RenderBuildRequest
+  | ({ shareCode: string } & Omit<RenderByShareCodeOptions, keyof RenderJobPollingOptions>);
+
+export interface SerializedRenderRequest {
+  body: Record<string, unknown>;
+  warnings: RenderRequestWarning[];
+}
+
+/**
+ * Build the JSON body for a render endpoint. Every render endpoint goes
+ * through this serializer, so an option is either sent the same way
+ * everywhere or reported in `warnings` - never dropped silently.
+ * Unset (undefined) options are omitted.
+ *
+ * @example
+ * ```tsx
+ * const { body, warnings } = serializeRenderRequest('/render-build', {
+ *   parts: { GPU: ['z7pyphm9k'] },
+ *   format: 'video',
+ *   frameQuality: 'high',
+ * });
+ * // body: { parts: { GPU: ['z7pyphm9k'] }, format: 'video' }
+ * // warnings: [{ code: 'unsupported_option', field: 'frameQuality', ... }]
+ * ```
+ */
+export const serializeRenderRequest = (
+  endpoint: RenderRequestEndpoint,
+  input: RenderRequestInput
+): SerializedRenderRequest => {
+  const allowedFields: readonly string[] = [
+    RENDER_ENDPOINT_BUILD_FIELD[endpoint],
+    ...RENDER_ENDPOINT_OPTIONS[endpoint],
+  ];
+  const source = input as unknown as Record<string, unknown>;
+  const format = source.format ?? "video";
+  const body: Record<string, unknown> = {};
+  const warnings: RenderRequestWarning[] = [];
+
+  for (const field of allowedFields) {
+    const value = source[field];
+    if (value === undefined) continue;
+
+    const requiredFormat = FORMAT_SPECIFIC_OPTIONS[field as RenderOptionKey];
+    if (requiredFormat && requiredFormat !== format) {
+      warnings.push({
+        code: "unsupported_option",
+        endpoint,
+        field,
+        message: `${field} only applies to ${requiredFormat} renders and was not sent to ${endpoint}`,
+      });
+      continue;
+    }
+    body[field] = value;
+  }
+
+  for (const field of Object.keys(source)) {
+    if (allowedFields.includes(field) || source[field] === undefined) continue;
+    const isRenderOption = (RENDER_OPTION_KEYS as readonly string[]).includes(field);
+    warnings.push({
+      code: isRenderOption ? "unsupported_option" : "unknown_option",
+      endpoint,
+      field,
+      message: isRenderOption
+        ? `${field} is not supported by ${endpoint} and was not sent`
+        : `${field} is not a render option and was not sent to ${endpoint}`,
+    });
+  }
+
+  return { body, warnings };
+};
+
+/**
+ * Serialize a render request and report its warnings through
+ * `config.onWarning`. Without a handler they are dropped quietly - the
+ * viewers pass requests through as given, and library code should not log.
+ * @internal
+ */
+export const buildRenderRequestBody = (
+  endpoint: RenderRequestEndpoint,
+  input: RenderRequestInput,
+  config: ApiConfig
+): string => {
+  const { body, warnings } = serializeRenderRequest(endpoint, input);
+  if (config.onWarning) {
+    for (const warning of warnings) config.onWarning(warning);
+  }
+  return JSON.stringify(body);
+};
@@ -0,0 +1,79 @@
+import { RetryPolicy } from "./types";
+
+export type ResolvedRetryPolicy = Required<RetryPolicy>;
+
+// Default policy for idempotent requests
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  backoffMultiplier: 2,
+  jitter: true,
+  retryOnStatuses: [408, 429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  respectRetryAfter: true,
+  maxRetryAfterMs: 30_000,
+};
+
+// Default policy for job-creation POSTs - only statuses where the job was
+// rejected before being accepted, never network errors (the job may exist)
+export const DEFAULT_JOB_CREATION_RETRY_POLICY: ResolvedRetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 2,
+  retryOnStatuses: [429, 503],
+  retryOnNetworkError: false,
+};
+
+export const NO_RETRY_POLICY: ResolvedRetryPolicy = {
+  ...DEFAULT_RETRY_POLICY,
+  maxAttempts: 1,
+};
+
+export const resolveRetryPolicy = (
+  policy: RetryPolicy | false | undefined,
+  defaults: ResolvedRetryPolicy
+): ResolvedRetryPolicy => {
+  if (policy === false) return NO_RETRY_POLICY;
+  return { ...defaults, ...policy };
+};
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfterMs = (
+  header: string | null,
+  now = Date.now()
+): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  if (Number.isFinite(date)) {
+    return Math.max(0, date - now);
+  }
+  return undefined;
+};
+
+/**
+ * Delay before the next attempt, after `attempt` (1-based) attempts have failed
+ */
+export const computeRetryDelayMs = (
+  policy: ResolvedRetryPolicy,
+  attempt: number,
+  retryAfterMs?: number
+): number => {
+  if (policy.respectRetryAfter && retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxRetryAfterMs);
+  }
+
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1)
+  );
+  // "Equal jitter": keep at least half the backoff so retries never bunch up at zero
+  return policy.jitter ? backoff / 2 + Math.random() * (backoff / 2) : backoff;
+};
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { RenderSessionError, RenderSessionScope, createRenderSessionHandler } from "./server";
+
+// Stands in for the Render API's session endpoint
+const createSessionApi = () => {
+  const bodies: Record<string, unknown>[] = [];
+  const fetch: typeof globalThis.fetch = async (_input, init) => {
+    bodies.push(JSON.parse(String(init?.body)));
+    return Response.json({ session_token: "session-token", expires_at: "2030-01-01T00:00:00Z" });
+  };
+  return { fetch, bodies };
+};
+
+const post = (body?: unknown, headers: Record<string, string> = {}) =>
+  new Request("https://app.example/api/token", {
+    method: "POST",
+    headers: { Origin: "https://app.example", ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+describe("createRenderSessionHandler", () => {
+  it("throws at creation for an invalid ttlSeconds", () => {
+    const create = () => createRenderSessionHandler({ apiKey: "api-key", ttlSeconds: 3600 });
+
+    expect(create).toThrow(RenderSessionError);
+    expect(create).toThrow(/ttlSeconds/);
+  });
+
+  it("throws at creation for an unknown scope", () => {
+    expect(() =>
+      createRenderSessionHandler({
+        apiKey: "api-key",
+        scopes: ["render:admin" as RenderSessionScope],
+      })
+    ).toThrow(RenderSessionError);
+  });
+
+  it("answers 500 misconfigured when a scopes function returns an unknown scope", async () => {
+    const api = createSessionApi();
+    const handler = createRenderSessionHandler({
+      apiKey: "api-key",
+      fetch: api.fetch,
+      scopes: () => ["render:admin" as RenderSessionScope],
+    });
+
+    const response = await handler(post());
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).error).toBe("misconfigured");
+    expect(api.bodies).toHaveLength(0);
+  });
+
+  it("mints a token for an allowed origin, bound to it", async () => {
+    const api = createSessionApi();
+    const handler = createRenderSessionHandler({
+      apiKey: "api-key",
+      fetch: api.fetch,
+      allowedOrigins: ["https://app.example"],
+      ttlSeconds: 60,
+    });
+
+    const response = await handler(post());
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ token: "session-token", expiresAt: "2030-01-01T00:00:00Z" });
+    expect(response.headers.get("Access-Control-Allow-Origin")).toBe("https://app.example");
+    expect(api.bodies).toEqual([
+      { ttl_seconds: 60, scopes: ["render:submit", "render:status"], origin: "https://app.example" },
+    ]);
+  });
+
+  it("answers 403 for origins outside the allow-list", async () => {
+    const api = createSessionApi();
+    const handler = createRenderSessionHandler({
+      apiKey: "api-key",
+      fetch: api.fetch,
+      allowedOrigins: (origin) => origin.endsWith(".example"),
+    });
+
+    const refused = await handler(post(undefined, { Origin: "https://evil.test" }));
+
+    expect(refused.status).toBe(403);
+    expect((await refused.json()).error).toBe("origin_not_allowed");
+    expect(refused.headers.get("Access-Control-Allow-Origin")).toBeNull();
+    expect((await handler(post())).status).toBe(200);
+    expect(api.bodies).toHaveLength(1);
+  });
+
+  it("answers 405 for methods other than POST", async () => {
+    const handler = createRenderSessionHandler({ apiKey: "api-key", fetch: createSessionApi().fetch });
+
+    const response = await handler(new Request("https://app.example/api/token"));
+
+    expect(response.status).toBe(405);
+    expect((await response.json()).error).toBe("method_not_allowed");
+  });
+
+  it("answers 400 for a malformed body and 403 for scopes beyond the grant", async () => {
+    const handler = createRenderSessionHandler({ apiKey: "api-key", fetch: createSessionApi().fetch });
+
+    const malformed = await handler(
+      new Request("https://app.example/api/token", { method: "POST", body: "{not json" })
+    );
+    const widened = await handler(post({ scopes: ["data:read"] }));
+
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error).toBe("invalid_request");
+    expect(widened.status).toBe(403);
+    expect((await widened.json()).error).toBe("scope_not_allowed");
+  });
+
+  it("narrows the token to the scopes the client asked for", async () => {
+    const api = createSessionApi();
+    const handler = createRenderSessionHandler({
+      apiKey: "api-key",
+      fetch: api.fetch,
+      scopes: ["render:submit", "render:status", "data:read"],
+      bindOrigin: false,
+    });
+
+    await handler(post({ scopes: ["data:read"] }));
+
+    expect(api.bodies).toEqual([{ scopes: ["data:read"] }]);
+  });
+
+  it("answers 502 without upstream details when the Render API fails", async () => {
+    const errors: Error[] = [];
+    const handler = createRenderSessionHandler({
+      apiKey: "api-key",
+      fetch: async () => Response.json({ error: "Invalid API key" }, { status: 401 }),
+      onError: (error) => errors.push(error),
+    });
+
+    const response = await handler(post());
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({
+      error: "upstream_error",
+      message: "Failed to create render session",
+    });
+    expect(errors).toHaveLength(1);
+  });
+});
@@ -0,0 +1,360 @@
+import { RenderApiError, RenderApiErrorDetails, createResponseError } from "./errors";
+import { API_ENDPOINTS, buildApiUrl } from "./api";
+
+/**
+ * Permissions a render session token can carry
+ * - render:submit: create render jobs
+ * - render:status: poll render job status
+ * - data:read: list parts and read builds
+ */
+export type RenderSessionScope = "render:submit" | "render:status" | "data:read";
+
+export interface CreateRenderSessionOptions {
+  /** Token lifetime in seconds, between 30 and 300 (default: 120) */
+  ttlSeconds?: number;
+  /** Scopes granted to the token (default: ["render:submit", "render:status"]) */
+  scopes?: RenderSessionScope[];
+  /** HTTP(S) origin the token is bound to; browser requests must send a matching `Origin` header */
+  origin?: string;
+  /** Environment the token is minted for (default: the API's default environment) */
+  environment?: "staging" | "prod";
+  /** Override the API base URL */
+  baseUrl?: string;
+  /** Custom fetch implementation */
+  fetch?: typeof fetch;
+  /** Abort the request */
+  signal?: AbortSignal;
+}
+
+/**
+ * A minted render session token
+ */
+export interface RenderSession {
+  /** Short-lived token to send as `Authorization: Bearer <token>` */
+  token: string;
+  /** Expiry time as an ISO 8601 timestamp */
+  expiresAt: string;
+  /** Scopes the token carries */
+  scopes: RenderSessionScope[];
+  /** Environment the token is bound to, when the API reports it */
+  environment?: string;
+}
+
+/**
+ * Why the session handler refused a request
+ */
+export type RenderSessionErrorCode =
+  | "method_not_allowed"
+  | "invalid_request"
+  | "origin_not_allowed"
+  | "scope_not_allowed"
+  | "invalid_response"
+  | "misconfigured";
+
+/**
+ * Thrown by `createRenderSession` and the session handler for problems that do
+ * not come from a Render API error response. For requests the handler refuses,
+ * `status` is the HTTP status it responds with.
+ */
+export class RenderSessionError extends RenderApiError {
+  readonly code: RenderSessionErrorCode;
+
+  constructor(code: RenderSessionErrorCode, message: string, details: RenderApiErrorDetails = {}) {
+    super(message, details);
+    this.name = "RenderSessionError";
+    this.code = code;
+  }
+}
+
+export interface RenderSessionHandlerOptions
+  extends Omit<CreateRenderSessionOptions, "scopes" | "origin" | "signal"> {
+  /** Long-lived BuildCores API key. Never send it to the browser. */
+  apiKey: string;
+  /**
+   * Origins allowed to request tokens. Requests without an allowed `Origin`
+   * header are refused with 403. Omit to accept any origin.
+   */
+  allowedOrigins?: string[] | ((origin: string) => boolean);
+  /**
+   * Scopes a token may carry (default: ["render:submit", "render:status"]).
+   * Pass a function to choose per request, e.g. from the signed-in user.
+   * Clients can ask for fewer by sending `{ "scopes": [...] }` in the body.
+   */
+  scopes?: RenderSessionScope[] | ((request: Request) => RenderSessionScope[] | Promise<RenderSessionScope[]>);
+  /** Bind tokens to the requesting page's origin (default: true) */
+  bindOrigin?: boolean;
+  /** Called with every error before the handler turns it into a response, e.g. for logging */
+  onError?: (error: RenderApiError) => void;
+}
+
+interface RenderSessionResponseBody {
+  session_token?: string;
+  expires_at?: string;
+  scopes?: RenderSessionScope[];
+  environment?: string;
+}
+
+const RENDER_SESSION_SCOPES: readonly RenderSessionScope[] = [
+  "render:submit",
+  "render:status",
+  "data:read",
+];
+const DEFAULT_RENDER_SESSION_SCOPES: RenderSessionScope[] = ["render:submit", "render:status"];
+const RENDER_SESSION_TTL_RANGE = { min: 30, max: 300 } as const;
+
+const isRenderSessionScope = (value: unknown): value is RenderSessionScope =>
+  RENDER_SESSION_SCOPES.includes(value as RenderSessionScope);
+
+// Session options the API would reject, checked before any request is made
+const findInvalidSessionOption = (
+  ttlSeconds: number | undefined,
+  scopes: readonly unknown[]
+): string | null => {
+  if (
+    ttlSeconds !== undefined &&
+    !(
+      Number.isInteger(ttlSeconds) &&
+      ttlSeconds >= RENDER_SESSION_TTL_RANGE.min &&
+      ttlSeconds <= RENDER_SESSION_TTL_RANGE.max
+    )
+  ) {
+    return `ttlSeconds must be an integer between ${RENDER_SESSION_TTL_RANGE.min} and ${RENDER_SESSION_TTL_RANGE.max}`;
+  }
+  const unknownScope = scopes.find((scope) => !isRenderSessionScope(scope));
+  return unknownScope === undefined ? null : `Unknown render session scope "${String(unknownScope)}"`;
+};
+
+/**
+ * Mint a short-lived render session token with your API key. Server-side only.
+ *
+ * @example
+ * ```tsx
+ * import { createRenderSession } from '@buildcores/render-client/server';
+ *
+ * const { token, expiresAt } = await createRenderSession(process.env.BUILDCORES_API_KEY!, {
+ *   scopes: ['render:submit', 'render:status', 'data:read'],
+ *   origin: 'https://yoursite.com',
+ * });
+ * ```
+ */
+export const createRenderSession = async (
+  apiKey: string,
+  options: CreateRenderSessionOptions = {}
+): Promise<RenderSession> => {
+  const endpoint = API_ENDPOINTS.RENDER_SESSION;
+  if (!apiKey) {
+    throw new RenderSessionError("invalid_request", "createRenderSession requires an API key", {
+      endpoint,
+    });
+  }
+
+  const { ttlSeconds, scopes = DEFAULT_RENDER_SESSION_SCOPES, origin } = options;
+  const invalidOption = findInvalidSessionOption(ttlSeconds, scopes);
+  if (invalidOption) {
+    throw new RenderSessionError("invalid_request", invalidOption, { endpoint, status: 400 });
+  }
+
+  const fetchImpl = options.fetch ?? fetch;
+  const response = await fetchImpl(
+    buildApiUrl(endpoint, { baseUrl: options.baseUrl, environment: options.environment }),
+    {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ ttl_seconds: ttlSeconds, scopes, origin }),
+      signal: options.signal,
+    }
+  );
+
+  if (!response.ok) {
+    throw await createResponseError(
+      response,
+      `Create render session failed: ${response.status} ${response.statusText}`,
+      { endpoint }
+    );
+  }
+
+  const data = (await response.json()) as RenderSessionResponseBody;
+  if (!data?.session_token || !data.expires_at) {
+    throw new RenderSessionError(
+      "invalid_response",
+      "Create render session failed: missing session_token or expires_at in response",
+      { endpoint, status: 502 }
+    );
+  }
+  return {
+    token: data.session_token,
+    expiresAt: data.expires_at,
+    scopes: data.scopes ?? scopes,
+    environment: data.environment,
+  };
+};
+
+// Scopes the client asked for in the body ({ "scopes": [...] }), if any
+const readRequestedScopes = async (request: Request): Promise<unknown[] | undefined> => {
+  const text = await request.text();
+  if (!text.trim()) return undefined;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw new RenderSessionError("invalid_request", "Request body must be JSON", { status: 400 });
+  }
+  const scopes = (body as { scopes?: unknown } | null)?.scopes;
+  if (scopes === undefined) return undefined;
+  if (!Array.isArray(scopes)) {
+    throw new RenderSessionError("invalid_request", "scopes must be an array", { status: 400 });
+  }
+  return scopes;
+};
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string>) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", "Cache-Control": "no-store", ...headers },
+  });
+
+/**
+ * Create a `Request` -> `Response` handler that mints render session tokens
+ * for the browser. It responds with `{ token, expiresAt }`, the shape
+ * `getRenderSessionToken` returns, and works anywhere the Fetch API does
+ * (Node 18+, Next.js route handlers, edge runtimes).
+ *
+ * Refused requests get a JSON `{ error, message }` body: 405 for methods other
+ * than POST, 400 for malformed bodies, 403 for origins or scopes that are not
+ * allowed, 500 when a `scopes` function returns an unknown scope, and 502 when
+ * the Render API call fails. Invalid `ttlSeconds` or `scopes` options throw a
+ * `RenderSessionError` when the handler is created, so they surface at startup.
+ *
+ * @example
+ * ```tsx
+ * // app/api/buildcores-token/route.ts
+ * import { createRenderSessionHandler } from '@buildcores/render-client/server';
+ *
+ * export const POST = createRenderSessionHandler({
+ *   apiKey: process.env.BUILDCORES_API_KEY!,
+ *   allowedOrigins: ['https://yoursite.com'],
+ *   scopes: ['render:submit', 'render:status', 'data:read'],
+ * });
+ *
+ * // Browser
+ * const apiConfig: ApiConfig = {
+ *   environment: 'prod',
+ *   authMode: 'session',
+ *   getRenderSessionToken: () =>
+ *     fetch('/api/buildcores-token', { method: 'POST' }).then((res) => res.json()),
+ * };
+ * ```
+ */
+export const createRenderSessionHandler = (
+  options: RenderSessionHandlerOptions
+): ((request: Request) => Promise<Response>) => {
+  const { apiKey, allowedOrigins, scopes, bindOrigin = true, onError, ...sessionOptions } = options;
+  if (!apiKey) {
+    throw new RenderSessionError("invalid_request", "createRenderSessionHandler requires an API key");
+  }
+  const invalidOption = findInvalidSessionOption(
+    sessionOptions.ttlSeconds,
+    typeof scopes === "function" ? [] : scopes ?? []
+  );
+  if (invalidOption) {
+    throw new RenderSessionError("misconfigured", `createRenderSessionHandler: ${invalidOption}`);
+  }
+
+  const isOriginAllowed = (origin: string | null): boolean => {
+    if (!allowedOrigins) return true;
+    if (!origin) return false;
+    return typeof allowedOrigins === "function"
+      ? allowedOrigins(origin)
+      : allowedOrigins.includes(origin);
+  };
+
+  return async (request) => {
+    const origin = request.headers.get("origin");
+    // Only echo origins from the allow-list, so other sites cannot read tokens
+    const corsHeaders: Record<string, string> =
+      allowedOrigins && origin && isOriginAllowed(origin)
+        ? { "Access-Control-Allow-Origin": origin, Vary: "Origin" }
+        : {};
+
+    // Set once the request passed our own checks - later failures are upstream
+    let accepted = false;
+    try {
+      if (!isOriginAllowed(origin)) {
+        throw new RenderSessionError(
+          "origin_not_allowed",
+          origin ? `Origin ${origin} is not allowed` : "Missing Origin header",
+          { status: 403 }
+        );
+      }
+      if (request.method === "OPTIONS") {
+        return new Response(null, {
+          status: 204,
+          headers: {
+            ...corsHeaders,
+            "Access-Control-Allow-Methods": "POST",
+            "Access-Control-Allow-Headers": "Content-Type",
+          },
+        });
+      }
+      if (request.method !== "POST") {
+        throw new RenderSessionError("method_not_allowed", `Method ${request.method} is not allowed`, {
+          status: 405,
+        });
+      }
+
+      const grantedScopes =
+        (typeof scopes === "function" ? await scopes(request) : scopes) ??
+        DEFAULT_RENDER_SESSION_SCOPES;
+      const invalidScopes = findInvalidSessionOption(undefined, grantedScopes);
+      if (invalidScopes) {
+        throw new RenderSessionError("misconfigured", invalidScopes, { status: 500 });
+      }
+      const requestedScopes = await readRequestedScopes(request);
+      const refusedScope = requestedScopes?.find(
+        (scope) => !grantedScopes.includes(scope as RenderSessionScope)
+      );
+      if (refusedScope !== undefined) {
+        throw new RenderSessionError("scope_not_allowed", `Scope "${String(refusedScope)}" is not allowed`, {
+          status: 403,
+        });
+      }
+
+      accepted = true;
+      const session = await createRenderSession(apiKey, {
+        ...sessionOptions,
+        scopes: (requestedScopes as RenderSessionScope[] | undefined) ?? grantedScopes,
+        origin: bindOrigin && origin ? origin : undefined,
+        signal: request.signal,
+      });
+      return jsonResponse(200, { token: session.token, expiresAt: session.expiresAt }, corsHeaders);
+    } catch (caught) {
+      const error =
+        caught instanceof RenderApiError
+          ? caught
+          : new RenderApiError(caught instanceof Error ? caught.message : "Create render session failed");
+      onError?.(error);
+
+      // Render API failures are our server's problem, not the browser's; keep their details private
+      if (!accepted && error instanceof RenderSessionError) {
+        return jsonResponse(
+          error.status ?? 400,
+          { error: error.code, message: error.message },
+          corsHeaders
+        );
+      }
+      return jsonResponse(
+        502,
+        { error: "upstream_error", message: "Failed to create render session" },
+        corsHeaders
+      );
+    }
+  };
+};
+
+export { resolveRender } from "./prerender";
+export type { ResolveRenderOptions } from "./prerender";
+export type { ResolvedRender } from "./types";
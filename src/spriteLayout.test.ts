@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { inferSpriteLayout, parseSpriteLayout, readSpriteLayoutHeaders } from "./spriteLayout";
+
+const EXPECTED = { cols: 12, rows: 6, totalFrames: 72 };
+
+describe("parseSpriteLayout", () => {
+  it("accepts snake_case frame counts and partly filled last rows", () => {
+    expect(parseSpriteLayout({ cols: 10, rows: 8, total_frames: 75 })).toEqual({
+      cols: 10,
+      rows: 8,
+      totalFrames: 75,
+    });
+  });
+
+  it("fills the grid when no frame count is given", () => {
+    expect(parseSpriteLayout({ cols: "12", rows: "6" })).toEqual(EXPECTED);
+  });
+
+  it("rejects frame counts that leave a row empty or overflow the grid", () => {
+    expect(parseSpriteLayout({ cols: 10, rows: 8, totalFrames: 70 })).toBeNull();
+    expect(parseSpriteLayout({ cols: 10, rows: 8, totalFrames: 81 })).toBeNull();
+    expect(parseSpriteLayout({ cols: 0, rows: 8 })).toBeNull();
+  });
+});
+
+describe("readSpriteLayoutHeaders", () => {
+  it("reads the X-Sprite-* headers", () => {
+    const headers = new Headers({ "X-Sprite-Cols": "12", "X-Sprite-Rows": "6", "X-Sprite-Frames": "72" });
+
+    expect(readSpriteLayoutHeaders(headers)).toEqual(EXPECTED);
+    expect(readSpriteLayoutHeaders(new Headers())).toBeNull();
+  });
+});
+
+describe("inferSpriteLayout", () => {
+  it("keeps the expected grid when it fits", () => {
+    expect(inferSpriteLayout(1536, 768, EXPECTED)).toBe(EXPECTED);
+  });
+
+  it("finds another grid with the expected frame count", () => {
+    expect(inferSpriteLayout(512, 576, EXPECTED)).toEqual({ cols: 8, rows: 9, totalFrames: 72 });
+  });
+
+  it("finds a grid with a changed frame count", () => {
+    expect(inferSpriteLayout(1536, 1024, EXPECTED)).toEqual({ cols: 12, rows: 8, totalFrames: 96 });
+  });
+
+  it("keeps the frame shape of the requested size", () => {
+    expect(inferSpriteLayout(2560, 1080, EXPECTED, 16 / 9)).toEqual({
+      cols: 8,
+      rows: 6,
+      totalFrames: 48,
+    });
+  });
+
+  it("returns null when no grid fits the image", () => {
+    expect(inferSpriteLayout(1000, 333, EXPECTED)).toBeNull();
+    expect(inferSpriteLayout(1501, 997, EXPECTED)).toBeNull();
+  });
+});
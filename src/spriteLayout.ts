@@ -0,0 +1,162 @@
+import { SpriteLayout } from "./types";
+
+/**
+ * Response headers that describe a sprite sheet's grid, e.g. on the
+ * experimental sprite endpoint
+ */
+export const SPRITE_LAYOUT_HEADERS = {
+  cols: "X-Sprite-Cols",
+  rows: "X-Sprite-Rows",
+  totalFrames: "X-Sprite-Frames",
+} as const;
+
+/**
+ * Thrown when a sprite sheet image cannot be divided into the frames of its
+ * layout (and no other grid fits it)
+ */
+export class SpriteLayoutError extends Error {
+  readonly layout: SpriteLayout;
+  /** Natural size of the sprite sheet image */
+  readonly imageWidth: number;
+  readonly imageHeight: number;
+
+  constructor(message: string, layout: SpriteLayout, imageWidth: number, imageHeight: number) {
+    super(message);
+    this.name = "SpriteLayoutError";
+    this.layout = layout;
+    this.imageWidth = imageWidth;
+    this.imageHeight = imageHeight;
+  }
+}
+
+const toPositiveInteger = (value: unknown): number | null => {
+  const number = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof number === "number" && Number.isInteger(number) && number > 0 ? number : null;
+};
+
+/**
+ * Read a sprite layout from a job status, sidecar manifest or metadata
+ * object. Accepts `totalFrames`, `total_frames` or `frames`; without one,
+ * every cell of the grid is a frame. Returns null unless the grid is valid:
+ * positive integers, with frames filling every row but the last.
+ *
+ * @example
+ * ```tsx
+ * parseSpriteLayout({ cols: 10, rows: 8, total_frames: 75 });
+ * // => { cols: 10, rows: 8, totalFrames: 75 }
+ * ```
+ */
+export const parseSpriteLayout = (value: unknown): SpriteLayout | null => {
+  if (!value || typeof value !== "object") return null;
+  const source = value as Record<string, unknown>;
+  const cols = toPositiveInteger(source.cols);
+  const rows = toPositiveInteger(source.rows);
+  if (cols === null || rows === null) return null;
+
+  const frames = source.totalFrames ?? source.total_frames ?? source.frames;
+  const totalFrames = frames === undefined || frames === null ? cols * rows : toPositiveInteger(frames);
+  if (totalFrames === null || totalFrames > cols * rows || totalFrames <= (rows - 1) * cols) {
+    return null;
+  }
+  return { cols, rows, totalFrames };
+};
+
+/**
+ * Sprite layout from `X-Sprite-Cols`, `X-Sprite-Rows` and (optionally)
+ * `X-Sprite-Frames` response headers, or null when they are missing or invalid
+ */
+export const readSpriteLayoutHeaders = (headers: Headers): SpriteLayout | null => {
+  const cols = headers.get(SPRITE_LAYOUT_HEADERS.cols);
+  const rows = headers.get(SPRITE_LAYOUT_HEADERS.rows);
+  if (cols === null || rows === null) return null;
+  return parseSpriteLayout({ cols, rows, totalFrames: headers.get(SPRITE_LAYOUT_HEADERS.totalFrames) });
+};
+
+/**
+ * Whether an image of the given size divides evenly into the layout's frames
+ */
+export const spriteLayoutFitsImage = (
+  layout: SpriteLayout,
+  imageWidth: number,
+  imageHeight: number
+): boolean =>
+  imageWidth > 0 &&
+  imageHeight > 0 &&
+  imageWidth % layout.cols === 0 &&
+  imageHeight % layout.rows === 0;
+
+// How far (as a log ratio) an inferred grid's frame shape may be from the
+// requested one - frames are whole pixels, so shapes only match roughly
+const FRAME_ASPECT_TOLERANCE = 0.02;
+// How many times more or fewer frames than expected an inferred grid may hold
+const MAX_FRAME_COUNT_RATIO = 4;
+
+const divisorsOf = (value: number): number[] => {
+  const divisors: number[] = [];
+  for (let divisor = 1; divisor <= value; divisor++) {
+    if (value % divisor === 0) divisors.push(divisor);
+  }
+  return divisors;
+};
+
+/**
+ * Find the grid of a sprite sheet from its image size when the expected
+ * layout does not fit it. Keeps `expected` when it fits. Otherwise only
+ * grids that divide the image evenly into frames shaped like `frameAspect`
+ * (width / height, default: 1) are considered: one that holds
+ * `expected.totalFrames` frames exactly, or else - the frame count itself
+ * changed - the full grid whose frame count is closest to it, within 4x.
+ * Returns null when no grid qualifies.
+ *
+ * @example
+ * ```tsx
+ * // A 72-frame sheet laid out 8 x 9 instead of the expected 12 x 6
+ * inferSpriteLayout(512, 576, { cols: 12, rows: 6, totalFrames: 72 });
+ * // => { cols: 8, rows: 9, totalFrames: 72 }
+ *
+ * // A sheet of 96 square frames instead of the expected 72
+ * inferSpriteLayout(1536, 1024, { cols: 12, rows: 6, totalFrames: 72 });
+ * // => { cols: 12, rows: 8, totalFrames: 96 }
+ * ```
+ */
+export const inferSpriteLayout = (
+  imageWidth: number,
+  imageHeight: number,
+  expected: SpriteLayout,
+  frameAspect = 1
+): SpriteLayout | null => {
+  if (spriteLayoutFitsImage(expected, imageWidth, imageHeight)) return expected;
+  if (!(imageWidth > 0 && imageHeight > 0)) return null;
+
+  const aspectDistance = (layout: SpriteLayout) =>
+    Math.abs(Math.log(imageWidth / layout.cols / (imageHeight / layout.rows) / frameAspect));
+
+  let best: SpriteLayout | null = null;
+  let bestDistance = Infinity;
+  const { totalFrames } = expected;
+  for (const cols of divisorsOf(totalFrames)) {
+    const candidate = { cols, rows: totalFrames / cols, totalFrames };
+    if (!spriteLayoutFitsImage(candidate, imageWidth, imageHeight)) continue;
+    const distance = aspectDistance(candidate);
+    if (distance > FRAME_ASPECT_TOLERANCE) continue;
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  if (best) return best;
+
+  const heightDivisors = divisorsOf(imageHeight);
+  for (const cols of divisorsOf(imageWidth)) {
+    for (const rows of heightDivisors) {
+      const candidate = { cols, rows, totalFrames: cols * rows };
+      if (aspectDistance(candidate) > FRAME_ASPECT_TOLERANCE) continue;
+      const distance = Math.abs(Math.log(candidate.totalFrames / totalFrames));
+      if (distance <= Math.log(MAX_FRAME_COUNT_RATIO) && distance < bestDistance) {
+        best = candidate;
+        bestDistance = distance;
+      }
+    }
+  }
+  return best;
+};
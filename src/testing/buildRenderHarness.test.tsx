@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { afterEach, describe, expect, it } from "vitest";
+import { createMockRenderApi } from "./mockRenderApi";
+import { BuildRenderHarness, mountBuildRender } from "./buildRenderHarness";
+
+describe("mountBuildRender", () => {
+  let viewer: BuildRenderHarness | undefined;
+  afterEach(() => {
+    viewer?.unmount();
+    viewer = undefined;
+  });
+
+  const mount = async (shareCode = "mock-build") => {
+    // Completed on creation, so the viewer needs no polling round-trips
+    const mock = createMockRenderApi({ lifecycle: [{ status: "completed" }] });
+    viewer = await mountBuildRender(
+      {
+        shareCode,
+        size: 300,
+        apiConfig: { baseUrl: "https://mock.local", authToken: "test", fetch: mock.fetch },
+      },
+      { headless: true }
+    );
+    return viewer;
+  };
+
+  it("records the first frame of a share code render", async () => {
+    const harness = await mount();
+
+    const first = await harness.waitForFrame();
+
+    expect(first.frame).toBe(0);
+    expect(harness.canvas).not.toBeNull();
+  });
+
+  it("follows drags and wheel zooms", async () => {
+    const harness = await mount();
+    await harness.waitForFrame();
+
+    // default mouseSensitivity 0.2 => 10 frames
+    const dragged = await harness.drag(50);
+    expect(dragged?.frame).toBe(10);
+
+    const zoomed = await harness.wheel(-200);
+    expect(zoomed!.destination.width).toBeGreaterThan(dragged!.destination.width);
+  });
+
+  it("removes its container on unmount", async () => {
+    const harness = await mount();
+    await harness.waitForFrame();
+
+    harness.unmount();
+    viewer = undefined;
+
+    expect(document.body.contains(harness.container)).toBe(false);
+  });
+});
@@ -0,0 +1,323 @@
+import type { ReactElement } from "react";
+import { BuildRender } from "../index";
+import type { BuildRenderProps } from "../index";
+import { HeadlessCanvasOptions, installHeadlessCanvas } from "./headlessCanvas";
+import { colorToFrameIndex } from "./syntheticSprite";
+
+/**
+ * What one `draw` pass of `BuildRender` put on the canvas
+ */
+export interface DrawnFrame {
+  /** Sprite frame drawn at full opacity */
+  frame: number;
+  /** Frame cross-faded on top, during a spin */
+  nextFrame?: number;
+  /** Opacity of `nextFrame` (0-1) */
+  blend?: number;
+  /** Where the frame was drawn, in canvas backing-store pixels - grows with zoom */
+  destination: { x: number; y: number; width: number; height: number };
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+export interface BuildRenderHarnessOptions {
+  /** Element to render into (default: a new div appended to document.body) */
+  container?: HTMLElement;
+  /**
+   * Install the headless canvas shim for DOM emulators without canvas support
+   * (jsdom, happy-dom). Pass options to size images it cannot measure.
+   */
+  headless?: boolean | HeadlessCanvasOptions;
+}
+
+export interface BuildRenderDragOptions {
+  /** Input device to simulate (default: "mouse") */
+  pointer?: "mouse" | "touch";
+  /** Move events to send between press and release (default: 5) */
+  steps?: number;
+}
+
+/**
+ * A mounted `BuildRender` with helpers to drive it and read back what it drew
+ */
+export interface BuildRenderHarness {
+  readonly container: HTMLElement;
+  /** The viewer canvas, once the sprite has loaded */
+  readonly canvas: HTMLCanvasElement | null;
+  /** Latest draw, or null before the first */
+  readonly lastFrame: DrawnFrame | null;
+  /** Every draw so far, oldest first */
+  readonly frames: DrawnFrame[];
+  /** Wait for a draw matching `predicate` (default: any), including the latest one */
+  waitForFrame(predicate?: (frame: DrawnFrame) => boolean, timeoutMs?: number): Promise<DrawnFrame>;
+  /**
+   * Frame shown at the center of the canvas, decoded from its pixel color.
+   * Only works with a real canvas and a synthetic sprite sheet; null while
+   * two frames are blended or when the color is not a synthetic frame color.
+   */
+  readPixelFrame(): number | null;
+  /** Drag horizontally across the canvas by `deltaX` CSS pixels */
+  drag(deltaX: number, options?: BuildRenderDragOptions): Promise<DrawnFrame | null>;
+  /** Scroll the mouse wheel over the viewer (negative `deltaY` zooms in) */
+  wheel(deltaY: number): Promise<DrawnFrame | null>;
+  /** Render again with new props */
+  rerender(props: BuildRenderProps): Promise<void>;
+  /** Unmount, remove the container if the harness created it, and undo the headless shim */
+  unmount(): void;
+}
+
+interface HarnessRoot {
+  render(element: ReactElement): void;
+  unmount(): void;
+}
+
+// React 18+ roots come from react-dom/client; React 16 and 17 only have the
+// legacy ReactDOM.render API
+const createHarnessRoot = async (container: HTMLElement): Promise<HarnessRoot> => {
+  try {
+    const { createRoot } = await import("react-dom/client");
+    return createRoot(container);
+  } catch {
+    const legacy = (await import("react-dom")) as unknown as {
+      render(element: ReactElement, container: HTMLElement): void;
+      unmountComponentAtNode(container: HTMLElement): boolean;
+    };
+    return {
+      render: (element) => legacy.render(element, container),
+      unmount: () => {
+        legacy.unmountComponentAtNode(container);
+      },
+    };
+  }
+};
+
+interface DrawRecorder {
+  container: HTMLElement;
+  record(canvas: HTMLCanvasElement, context: CanvasRenderingContext2D): void;
+}
+
+const recorders = new Set<DrawRecorder>();
+let restoreGetContext: (() => void) | null = null;
+
+// Wrap getContext while any harness is mounted, so each harness can observe
+// the draw calls made on canvases inside its container
+const watchCanvasContexts = (recorder: DrawRecorder) => {
+  recorders.add(recorder);
+  if (!restoreGetContext) {
+    const originalGetContext = HTMLCanvasElement.prototype.getContext;
+    HTMLCanvasElement.prototype.getContext = function (
+      this: HTMLCanvasElement,
+      ...args: [string, unknown?]
+    ) {
+      const context = (
+        originalGetContext as (this: HTMLCanvasElement, ...args: [string, unknown?]) => unknown
+      ).apply(this, args);
+      if (args[0] === "2d" && context) {
+        recorders.forEach((watching) => {
+          if (watching.container.contains(this)) {
+            watching.record(this, context as CanvasRenderingContext2D);
+          }
+        });
+      }
+      return context;
+    } as unknown as typeof originalGetContext;
+    restoreGetContext = () => {
+      HTMLCanvasElement.prototype.getContext = originalGetContext;
+    };
+  }
+
+  return () => {
+    recorders.delete(recorder);
+    if (recorders.size === 0) {
+      restoreGetContext?.();
+      restoreGetContext = null;
+    }
+  };
+};
+
+// Frame index of a sprite source rectangle, from the sheet width and frame size
+const frameFromSourceRect = (image: CanvasImageSource, sx: number, sy: number, sw: number, sh: number) => {
+  const sheet = image as { naturalWidth?: number; width?: number };
+  const sheetWidth = sheet.naturalWidth || Number(sheet.width) || sw;
+  const cols = Math.max(1, Math.round(sheetWidth / sw));
+  return Math.round(sy / sh) * cols + Math.round(sx / sw);
+};
+
+// Let React commit and run effects for the events just dispatched
+const settle = () => new Promise<void>((resolve) => setTimeout(resolve, 20));
+
+const touchEvent = (type: string, clientX: number, clientY: number) => {
+  const event = new Event(type, { bubbles: true, cancelable: true });
+  const touches = type === "touchend" ? [] : [{ clientX, clientY, identifier: 0 }];
+  Object.defineProperty(event, "touches", { value: touches });
+  Object.defineProperty(event, "changedTouches", { value: touches });
+  return event;
+};
+
+/**
+ * Mount `BuildRender` and record which sprite frames it draws, to assert
+ * exact frames after drags, spins and zooms. Use real timers.
+ *
+ * @example
+ * ```tsx
+ * const mock = createMockRenderApi();
+ * const viewer = await mountBuildRender(
+ *   { shareCode: 'mock-build', size: 300, apiConfig: { authToken: 'test', fetch: mock.fetch } },
+ *   { headless: true }
+ * );
+ *
+ * await viewer.waitForFrame();
+ * const dragged = await viewer.drag(50); // mouseSensitivity 0.2: 10 frames on
+ * expect(dragged?.frame).toBe(10);
+ * viewer.unmount();
+ * ```
+ */
+export const mountBuildRender = async (
+  props: BuildRenderProps,
+  options: BuildRenderHarnessOptions = {}
+): Promise<BuildRenderHarness> => {
+  const ownsContainer = !options.container;
+  const container = options.container ?? document.body.appendChild(document.createElement("div"));
+  const restoreHeadless = options.headless
+    ? installHeadlessCanvas(options.headless === true ? {} : options.headless)
+    : null;
+
+  const frames: DrawnFrame[] = [];
+  const waiters = new Set<() => void>();
+  const instrumented = new WeakSet<object>();
+  let pass: DrawnFrame | null = null;
+
+  const stopWatching = watchCanvasContexts({
+    container,
+    record: (canvas, context) => {
+      if (instrumented.has(context)) return;
+      instrumented.add(context);
+
+      const clearRect = context.clearRect;
+      const drawImage = context.drawImage;
+      // Every draw pass starts by clearing the canvas
+      context.clearRect = function (...args: Parameters<typeof clearRect>) {
+        pass = null;
+        return clearRect.apply(this, args);
+      };
+      context.drawImage = function (this: CanvasRenderingContext2D, ...args: unknown[]) {
+        (drawImage as (...drawArgs: unknown[]) => void).apply(this, args);
+        if (args.length !== 9) return;
+        const [image, sx, sy, sw, sh, dx, dy, dw, dh] = args as [
+          CanvasImageSource,
+          ...number[],
+        ];
+        const frame = frameFromSourceRect(image, sx, sy, sw, sh);
+        if (!pass) {
+          pass = {
+            frame,
+            destination: { x: dx, y: dy, width: dw, height: dh },
+            canvasWidth: canvas.width,
+            canvasHeight: canvas.height,
+          };
+          frames.push(pass);
+        } else {
+          pass.nextFrame = frame;
+          pass.blend = context.globalAlpha;
+        }
+        waiters.forEach((notify) => notify());
+      } as typeof drawImage;
+    },
+  });
+
+  const root = await createHarnessRoot(container);
+  root.render(<BuildRender {...props} />);
+  await settle();
+
+  const getCanvas = () => container.querySelector("canvas");
+  const requireCanvas = () => {
+    const canvas = getCanvas();
+    if (!canvas) throw new Error("BuildRender has no canvas yet - wait for a frame first");
+    return canvas;
+  };
+  const lastFrame = () => frames[frames.length - 1] ?? null;
+
+  const waitForFrame = (predicate: (frame: DrawnFrame) => boolean = () => true, timeoutMs = 5000) =>
+    new Promise<DrawnFrame>((resolve, reject) => {
+      const check = () => {
+        const latest = lastFrame();
+        if (latest && predicate(latest)) {
+          clearTimeout(timer);
+          waiters.delete(check);
+          resolve(latest);
+        }
+      };
+      const timer = setTimeout(() => {
+        waiters.delete(check);
+        reject(new Error(`No matching BuildRender frame within ${timeoutMs}ms`));
+      }, timeoutMs);
+      waiters.add(check);
+      check();
+    });
+
+  const drag = async (deltaX: number, dragOptions: BuildRenderDragOptions = {}) => {
+    const { pointer = "mouse", steps = 5 } = dragOptions;
+    const canvas = requireCanvas();
+    const bounds = canvas.getBoundingClientRect();
+    const startX = bounds.left + bounds.width / 2;
+    const y = bounds.top + bounds.height / 2;
+    const event = (type: string, clientX: number) =>
+      pointer === "touch"
+        ? touchEvent(type, clientX, y)
+        : new MouseEvent(type, { bubbles: true, cancelable: true, clientX, clientY: y, button: 0 });
+
+    canvas.dispatchEvent(event(pointer === "touch" ? "touchstart" : "mousedown", startX));
+    // Move listeners are attached once the drag state has rendered
+    await settle();
+    for (let step = 1; step <= steps; step++) {
+      document.dispatchEvent(
+        event(pointer === "touch" ? "touchmove" : "mousemove", startX + (deltaX * step) / steps)
+      );
+    }
+    document.dispatchEvent(event(pointer === "touch" ? "touchend" : "mouseup", startX + deltaX));
+    await settle();
+    return lastFrame();
+  };
+
+  const wheel = async (deltaY: number) => {
+    requireCanvas().dispatchEvent(new WheelEvent("wheel", { deltaY, bubbles: true, cancelable: true }));
+    await settle();
+    return lastFrame();
+  };
+
+  return {
+    container,
+    get canvas() {
+      return getCanvas();
+    },
+    get lastFrame() {
+      return lastFrame();
+    },
+    frames,
+    waitForFrame,
+    readPixelFrame: () => {
+      const canvas = getCanvas();
+      const context = canvas?.getContext("2d");
+      if (!canvas || !context) return null;
+      const [red, green, blue] = context.getImageData(
+        Math.floor(canvas.width / 2),
+        Math.floor(canvas.height / 2),
+        1,
+        1
+      ).data;
+      return colorToFrameIndex(red, green, blue);
+    },
+    drag,
+    wheel,
+    rerender: async (nextProps) => {
+      root.render(<BuildRender {...nextProps} />);
+      await settle();
+    },
+    unmount: () => {
+      root.unmount();
+      stopWatching();
+      restoreHeadless?.();
+      if (ownsContainer) container.remove();
+    },
+  };
+};
@@ -0,0 +1,182 @@
+export interface HeadlessCanvasOptions {
+  /**
+   * Size of images the shim cannot measure itself. PNG, SVG and WebP data
+   * URLs and object URLs are measured from their bytes.
+   */
+  imageSize?: (src: string) => { width: number; height: number } | null;
+}
+
+type ImageSize = { width: number; height: number };
+
+// Read the pixel size from a PNG, WebP or SVG file header
+const readImageSize = (bytes: Uint8Array): ImageSize | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const ascii = (start: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(start, start + length));
+
+  if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === "PNG") {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  if (bytes.length >= 30 && ascii(0, 4) === "RIFF" && ascii(8, 4) === "WEBP") {
+    switch (ascii(12, 4)) {
+      case "VP8 ":
+        return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+      case "VP8L": {
+        const bits = view.getUint32(21, true);
+        return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+      }
+      case "VP8X":
+        return {
+          width: 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)),
+          height: 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)),
+        };
+    }
+    return null;
+  }
+
+  const svg = new TextDecoder().decode(bytes.subarray(0, 2048)).match(/<svg\b[^>]*>/);
+  if (svg) {
+    const width = svg[0].match(/\swidth="(\d+(?:\.\d+)?)/);
+    const height = svg[0].match(/\sheight="(\d+(?:\.\d+)?)/);
+    if (width && height) return { width: Number(width[1]), height: Number(height[1]) };
+  }
+  return null;
+};
+
+const dataUrlBytes = (src: string): Uint8Array | null => {
+  const match = src.match(/^data:[^,]*?(;base64)?,(.*)$/s);
+  if (!match) return null;
+  if (!match[1]) return new TextEncoder().encode(decodeURIComponent(match[2]));
+  const binary = atob(match[2]);
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+// Stand-in 2D context: accepts every call BuildRender makes and draws nothing
+const createHeadlessContext = (canvas: HTMLCanvasElement) => ({
+  canvas,
+  globalAlpha: 1,
+  imageSmoothingEnabled: true,
+  imageSmoothingQuality: "low",
+  clearRect: () => {},
+  fillRect: () => {},
+  drawImage: () => {},
+  save: () => {},
+  restore: () => {},
+  scale: () => {},
+  translate: () => {},
+  setTransform: () => {},
+  getImageData: (_x: number, _y: number, width: number, height: number) => ({
+    width,
+    height,
+    data: new Uint8ClampedArray(width * height * 4),
+  }),
+});
+
+let installCount = 0;
+let uninstall: (() => void) | null = null;
+
+/**
+ * Let `BuildRender` run in DOM emulators without a canvas implementation,
+ * such as jsdom or happy-dom: canvases get a 2D context that draws nothing,
+ * images "load" once their size is known, and `URL.createObjectURL` works.
+ * Returns a function that restores the originals. Nested installs share the
+ * first install's shim.
+ *
+ * @example
+ * ```tsx
+ * const restore = installHeadlessCanvas();
+ * afterAll(restore);
+ * ```
+ */
+export const installHeadlessCanvas = (options: HeadlessCanvasOptions = {}): (() => void) => {
+  installCount++;
+  if (!uninstall) {
+    const contexts = new WeakMap<HTMLCanvasElement, ReturnType<typeof createHeadlessContext>>();
+    const blobs = new Map<string, Blob>();
+    let objectUrlCounter = 0;
+
+    const originalGetContext = HTMLCanvasElement.prototype.getContext;
+    const originalImage = globalThis.Image;
+    const originalCreateObjectURL = URL.createObjectURL as typeof URL.createObjectURL | undefined;
+    const originalRevokeObjectURL = URL.revokeObjectURL as typeof URL.revokeObjectURL | undefined;
+
+    const measure = async (src: string): Promise<ImageSize | null> => {
+      const blob = blobs.get(src);
+      const bytes = blob ? new Uint8Array(await blob.arrayBuffer()) : dataUrlBytes(src);
+      return (bytes && readImageSize(bytes)) ?? options.imageSize?.(src) ?? null;
+    };
+
+    HTMLCanvasElement.prototype.getContext = function (this: HTMLCanvasElement, contextId: string) {
+      if (contextId !== "2d") return null;
+      let context = contexts.get(this);
+      if (!context) {
+        context = createHeadlessContext(this);
+        contexts.set(this, context);
+      }
+      return context;
+    } as unknown as typeof originalGetContext;
+
+    // Real <img> elements whose size comes from the image bytes, loading asynchronously
+    globalThis.Image = function HeadlessImage(width?: number, height?: number) {
+      const image = new originalImage(width, height);
+      let src = "";
+      let size: ImageSize = { width: width ?? 0, height: height ?? 0 };
+      Object.defineProperties(image, {
+        width: { get: () => size.width, configurable: true },
+        height: { get: () => size.height, configurable: true },
+        naturalWidth: { get: () => size.width, configurable: true },
+        naturalHeight: { get: () => size.height, configurable: true },
+        complete: { get: () => size.width > 0, configurable: true },
+        src: {
+          get: () => src,
+          set: (value: string) => {
+            src = String(value);
+            measure(src).then(
+              (measured) => {
+                if (src !== value) return;
+                if (measured) size = measured;
+                image.dispatchEvent(new Event(measured ? "load" : "error"));
+              },
+              () => image.dispatchEvent(new Event("error"))
+            );
+          },
+          configurable: true,
+        },
+      });
+      return image;
+    } as unknown as typeof Image;
+
+    URL.createObjectURL = (object: Blob | MediaSource) => {
+      const url = originalCreateObjectURL
+        ? originalCreateObjectURL.call(URL, object)
+        : `blob:headless/${++objectUrlCounter}`;
+      if (object instanceof Blob) blobs.set(url, object);
+      return url;
+    };
+    URL.revokeObjectURL = (url: string) => {
+      blobs.delete(url);
+      originalRevokeObjectURL?.call(URL, url);
+    };
+
+    uninstall = () => {
+      HTMLCanvasElement.prototype.getContext = originalGetContext;
+      globalThis.Image = originalImage;
+      if (originalCreateObjectURL) URL.createObjectURL = originalCreateObjectURL;
+      else delete (URL as { createObjectURL?: unknown }).createObjectURL;
+      if (originalRevokeObjectURL) URL.revokeObjectURL = originalRevokeObjectURL;
+      else delete (URL as { revokeObjectURL?: unknown }).revokeObjectURL;
+    };
+  }
+
+  let restored = false;
+  return () => {
+    if (restored) return;
+    restored = true;
+    installCount--;
+    if (installCount === 0) {
+      uninstall?.();
+      uninstall = null;
+    }
+  };
+};
@@ -0,0 +1,27 @@
+export { createMockRenderApi } from "./mockRenderApi";
+export type {
+  MockRenderApi,
+  MockRenderApiOptions,
+  MockRenderApiServer,
+  MockRenderJob,
+  MockJobStep,
+  MockApiRequest,
+  MockErrorInjection,
+  MockBuild,
+} from "./mockRenderApi";
+export { createPlaceholderVideoBytes } from "./placeholderAssets";
+export {
+  createSyntheticSpriteSheet,
+  frameIndexToColor,
+  colorToFrameIndex,
+} from "./syntheticSprite";
+export type { SyntheticSpriteSheet, SyntheticSpriteSheetOptions } from "./syntheticSprite";
+export { installHeadlessCanvas } from "./headlessCanvas";
+export type { HeadlessCanvasOptions } from "./headlessCanvas";
+export { mountBuildRender } from "./buildRenderHarness";
+export type {
+  BuildRenderHarness,
+  BuildRenderHarnessOptions,
+  BuildRenderDragOptions,
+  DrawnFrame,
+} from "./buildRenderHarness";
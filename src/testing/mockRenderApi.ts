@@ -0,0 +1,605 @@
+// Imported through the package entry, which the testing bundle keeps external
+import { API_ENDPOINTS, PartCategory, SPRITE_LAYOUT_HEADERS } from "../index";
+import type {
+  PartDetailsWithCategory,
+  RenderJobStatus,
+  RenderJobStatusResponse,
+  SpriteLayout,
+} from "../index";
+import { createPlaceholderVideoBytes, toDataUrl } from "./placeholderAssets";
+import { SyntheticSpriteSheet, createSyntheticSpriteSheet } from "./syntheticSprite";
+
+/**
+ * One stage of a mock render job. A step lasts `polls` status observations
+ * (job creation counts as the first) or `durationMs` milliseconds; the last
+ * step is final.
+ */
+export interface MockJobStep {
+  status: RenderJobStatus;
+  /** Status observations the step lasts (default: 1) */
+  polls?: number;
+  /** Time the step lasts, in milliseconds - takes precedence over `polls` */
+  durationMs?: number;
+  /** Error message reported while the step's status is "error" */
+  error?: string;
+}
+
+/**
+ * A render job created through the mock API
+ */
+export interface MockRenderJob {
+  jobId: string;
+  format: "video" | "sprite";
+  /** Share code, for jobs created through `/render-by-share-code` */
+  shareCode?: string;
+  /** Request body the job was created with */
+  request: Record<string, unknown>;
+  steps: MockJobStep[];
+  /** Status observations so far, including creation */
+  observations: number;
+  createdAt: number;
+}
+
+/**
+ * A request the mock API received
+ */
+export interface MockApiRequest {
+  method: string;
+  /** Path without the base URL or query, e.g. "/render-build/mock-job-1" */
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  /** Parsed JSON body, if any */
+  body: unknown;
+}
+
+/**
+ * Make matching requests fail with an error response
+ */
+export interface MockErrorInjection {
+  /**
+   * Path to fail. Segments starting with ":" match any value
+   * (e.g. "/render-build/:jobId"). Omit to fail every path.
+   */
+  path?: string | RegExp;
+  /** HTTP method to fail (default: any) */
+  method?: string;
+  /** Status to respond with, e.g. 401, 403, 404 or 500 */
+  status: number;
+  /** Response body (default: `{ error: "Injected <status> error" }`) */
+  body?: unknown;
+  /** Extra response headers, e.g. `Retry-After` */
+  headers?: Record<string, string>;
+  /** How many matching requests fail (default: 1, `Infinity` for all) */
+  times?: number;
+}
+
+/**
+ * A build the mock API serves by share code
+ */
+export interface MockBuild {
+  name?: string;
+  description?: string;
+  /** Part IDs by category. IDs in the mock catalog get part details. */
+  parts: Partial<Record<PartCategory, string[]>>;
+  /** Set false to mimic a case without a 3D model (default: true) */
+  hasInteractiveModel?: boolean;
+}
+
+export interface MockRenderApiOptions {
+  /** Part catalog (default: `partsPerCategory` generated parts per category) */
+  parts?: PartDetailsWithCategory[];
+  /** Size of each category in the generated catalog (default: 20) */
+  partsPerCategory?: number;
+  /**
+   * Builds by share code. Defaults to "mock-build", made of the first part of
+   * every category.
+   */
+  builds?: Record<string, MockBuild>;
+  /**
+   * Job lifecycle (default: queued, processing, completed - one poll each).
+   * Pass a function to script each job, e.g. to fail jobs for some parts.
+   */
+  lifecycle?: MockJobStep[] | ((job: MockRenderJob) => MockJobStep[]);
+  /** Response delay in milliseconds, fixed or per request (default: 0) */
+  delayMs?: number | ((request: MockApiRequest) => number);
+  /** Respond 401 to requests without a Bearer token (default: false) */
+  requireAuth?: boolean;
+  /**
+   * Asset URL reported for a completed job. Defaults to a data URL of a
+   * placeholder sprite (numbered frames) or video, which loads without a server.
+   */
+  assetUrl?: (job: MockRenderJob) => string;
+  /**
+   * Sprite grid reported as `sprite_layout` by completed sprite jobs, or null
+   * to report none so viewers fall back to the expected grid. Defaults to the
+   * grid of the placeholder sprite; with a custom `assetUrl`, to null.
+   */
+  spriteLayout?: (job: MockRenderJob) => SpriteLayout | null;
+}
+
+/**
+ * A running HTTP server for the mock API
+ */
+export interface MockRenderApiServer {
+  /** Base URL to use as `apiConfig.baseUrl`, e.g. "http://127.0.0.1:54321" */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * In-process Render API for tests and local development
+ */
+export interface MockRenderApi {
+  /** Fetch implementation answering every request from the mock - use as `apiConfig.fetch` */
+  fetch: typeof fetch;
+  /** Answer one request */
+  handle(request: Request): Promise<Response>;
+  /** Serve the mock over HTTP (Node only). Port 0, the default, picks a free port. */
+  listen(port?: number): Promise<MockRenderApiServer>;
+  /** Fail matching requests */
+  injectError(injection: MockErrorInjection): void;
+  /** Requests received so far, oldest first */
+  readonly requests: MockApiRequest[];
+  /** Jobs created so far, by job ID */
+  readonly jobs: ReadonlyMap<string, MockRenderJob>;
+  /** Part catalog the mock serves */
+  readonly parts: PartDetailsWithCategory[];
+  /** Forget requests, jobs and pending error injections */
+  reset(): void;
+}
+
+// Minimal shapes of node:http, which is loaded only when `listen` is called
+interface NodeIncomingMessage extends AsyncIterable<Uint8Array> {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+interface NodeServerResponse {
+  writeHead(status: number, headers: Record<string, string>): void;
+  end(body?: Uint8Array): void;
+}
+interface NodeHttpServer {
+  listen(port: number, host: string, callback: () => void): void;
+  address(): { port: number } | string | null;
+  close(callback: (error?: Error) => void): void;
+  once(event: "error", listener: (error: Error) => void): void;
+}
+interface NodeHttpModule {
+  createServer(
+    listener: (request: NodeIncomingMessage, response: NodeServerResponse) => void
+  ): NodeHttpServer;
+}
+
+const DEFAULT_LIFECYCLE: MockJobStep[] = [
+  { status: "queued" },
+  { status: "processing" },
+  { status: "completed" },
+];
+const DEFAULT_PARTS_PER_CATEGORY = 20;
+const DEFAULT_AVAILABLE_PARTS_LIMIT = 20;
+const MAX_AVAILABLE_PARTS_LIMIT = 100;
+const DEFAULT_BUILD_SHARE_CODE = "mock-build";
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "Authorization, Content-Type",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Expose-Headers": Object.values(SPRITE_LAYOUT_HEADERS).join(", "),
+};
+
+const createMockCatalog = (partsPerCategory: number): PartDetailsWithCategory[] =>
+  Object.values(PartCategory).flatMap((category) =>
+    Array.from({ length: partsPerCategory }, (_, index) => ({
+      id: `mock-${category.toLowerCase()}-${index + 1}`,
+      name: `Mock ${category} ${index + 1}`,
+      image: null,
+      category,
+    }))
+  );
+
+const matchesPath = (pattern: string | RegExp | undefined, path: string): boolean => {
+  if (pattern === undefined) return true;
+  if (pattern instanceof RegExp) return pattern.test(path);
+  const patternSegments = pattern.split("/");
+  const pathSegments = path.split("/");
+  return (
+    patternSegments.length === pathSegments.length &&
+    patternSegments.every(
+      (segment, index) =>
+        segment === pathSegments[index] || (segment.startsWith(":") && pathSegments[index] !== "")
+    )
+  );
+};
+
+const wait = (ms: number, signal: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (ms <= 0) return resolve();
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException("The operation was aborted", "AbortError"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...CORS_HEADERS, ...headers },
+  });
+
+const errorResponse = (status: number, error: string) => json(status, { error });
+
+// Current step of a job, given how often and how long ago it was observed
+const currentStep = (job: MockRenderJob): MockJobStep => {
+  const elapsedMs = Date.now() - job.createdAt;
+  let pollsBefore = 0;
+  let timeBefore = 0;
+  for (let index = 0; index < job.steps.length - 1; index++) {
+    const step = job.steps[index];
+    if (step.durationMs !== undefined) {
+      if (elapsedMs < timeBefore + step.durationMs) return step;
+      timeBefore += step.durationMs;
+    } else {
+      const polls = step.polls ?? 1;
+      if (job.observations <= pollsBefore + polls) return step;
+      pollsBefore += polls;
+    }
+  }
+  return job.steps[job.steps.length - 1];
+};
+
+/**
+ * Create an in-process mock of the Render API. It answers `/render-build`,
+ * `/render-build/:jobId`, `/render-by-share-code`, `/render-build-experimental`,
+ * `/build/:shareCode`, `/parts` and `/available-parts` from a generated catalog,
+ * with scriptable job lifecycles, delays and error injection.
+ *
+ * @example
+ * ```tsx
+ * import { createMockRenderApi } from '@buildcores/render-client/testing';
+ *
+ * const mock = createMockRenderApi({
+ *   lifecycle: [{ status: 'queued' }, { status: 'processing', polls: 2 }, { status: 'completed' }],
+ * });
+ * const apiConfig = { baseUrl: 'https://mock.local', authToken: 'test', fetch: mock.fetch };
+ *
+ * mock.injectError({ path: '/render-build/:jobId', status: 500 });
+ * const { videoUrl } = await renderByShareCode('mock-build', apiConfig, { format: 'sprite' });
+ *
+ * // Or over HTTP, e.g. for a dev server or browser tests
+ * const server = await mock.listen();
+ * // apiConfig.baseUrl = server.url
+ * await server.close();
+ * ```
+ */
+export const createMockRenderApi = (options: MockRenderApiOptions = {}): MockRenderApi => {
+  const parts = options.parts ?? createMockCatalog(options.partsPerCategory ?? DEFAULT_PARTS_PER_CATEGORY);
+  const partsById = new Map(parts.map((part) => [part.id, part]));
+  const builds: Record<string, MockBuild> = options.builds ?? {
+    [DEFAULT_BUILD_SHARE_CODE]: {
+      name: "Mock Build",
+      parts: Object.fromEntries(
+        Object.values(PartCategory).flatMap((category) => {
+          const first = parts.find((part) => part.category === category);
+          return first ? [[category, [first.id]]] : [];
+        })
+      ),
+    },
+  };
+
+  let requests: MockApiRequest[] = [];
+  let jobs = new Map<string, MockRenderJob>();
+  let injections: MockErrorInjection[] = [];
+  let jobCounter = 0;
+
+  // Sprite sheets are the same for every job of a frame quality, so build each once
+  const spriteSheets = new Map<number, SyntheticSpriteSheet>();
+  const spriteSheet = (rows: number) => {
+    let sheet = spriteSheets.get(rows);
+    if (!sheet) {
+      sheet = createSyntheticSpriteSheet({ cols: 12, rows });
+      spriteSheets.set(rows, sheet);
+    }
+    return sheet;
+  };
+
+  const placeholderSprite = (job: MockRenderJob) =>
+    spriteSheet(job.request.frameQuality === "high" ? 12 : 6);
+  const assetUrl =
+    options.assetUrl ??
+    ((job: MockRenderJob) =>
+      job.format === "sprite"
+        ? placeholderSprite(job).dataUrl
+        : toDataUrl("video/mp4", createPlaceholderVideoBytes(job.jobId)));
+  const spriteLayout =
+    options.spriteLayout ??
+    ((job: MockRenderJob): SpriteLayout | null => {
+      if (options.assetUrl) return null;
+      const { cols, rows, totalFrames } = placeholderSprite(job);
+      return { cols, rows, totalFrames };
+    });
+
+  const takeInjection = (request: MockApiRequest): MockErrorInjection | undefined => {
+    const index = injections.findIndex(
+      (injection) =>
+        matchesPath(injection.path, request.path) &&
+        (!injection.method || injection.method.toUpperCase() === request.method)
+    );
+    if (index === -1) return undefined;
+    const injection = injections[index];
+    const remaining = (injection.times ?? 1) - 1;
+    if (remaining > 0) injections[index] = { ...injection, times: remaining };
+    else injections.splice(index, 1);
+    return injection;
+  };
+
+  const createJob = (body: Record<string, unknown>, shareCode?: string): MockRenderJob => {
+    const job: MockRenderJob = {
+      jobId: `mock-job-${++jobCounter}`,
+      format: body.format === "sprite" ? "sprite" : "video",
+      shareCode,
+      request: body,
+      steps: [],
+      observations: 1,
+      createdAt: Date.now(),
+    };
+    const steps =
+      typeof options.lifecycle === "function" ? options.lifecycle(job) : options.lifecycle;
+    job.steps = steps && steps.length > 0 ? steps : DEFAULT_LIFECYCLE;
+    jobs.set(job.jobId, job);
+    return job;
+  };
+
+  const jobStatus = (job: MockRenderJob): RenderJobStatusResponse => {
+    const step = currentStep(job);
+    const completed = step.status === "completed";
+    const url = completed ? assetUrl(job) : null;
+    const layout = completed && job.format === "sprite" ? spriteLayout(job) : null;
+    return {
+      job_id: job.jobId,
+      status: step.status,
+      url,
+      video_url: job.format === "video" ? url : null,
+      sprite_url: job.format === "sprite" ? url : null,
+      screenshot_url: null,
+      sprite_layout: layout
+        ? { cols: layout.cols, rows: layout.rows, total_frames: layout.totalFrames }
+        : null,
+      error: step.status === "error" ? step.error ?? "Mock render failed" : null,
+      end_time: completed || step.status === "error" ? new Date().toISOString() : null,
+    };
+  };
+
+  // Like the real API's cache hit, a job completed on creation carries its asset URLs
+  const createdResponse = (job: MockRenderJob, extra: Record<string, unknown> = {}) => {
+    const status = jobStatus(job);
+    return status.status === "completed"
+      ? {
+          job_id: job.jobId,
+          status: status.status,
+          url: status.url,
+          video_url: status.video_url,
+          sprite_url: status.sprite_url,
+          sprite_layout: status.sprite_layout,
+          cached: true,
+          ...extra,
+        }
+      : { job_id: job.jobId, status: status.status, ...extra };
+  };
+
+  const hasRenderableParts = (body: Record<string, unknown>) => {
+    const requestedParts = body.parts as Record<string, unknown> | undefined;
+    return (
+      typeof requestedParts === "object" &&
+      requestedParts !== null &&
+      Object.values(requestedParts).some((ids) => Array.isArray(ids) && ids.length > 0)
+    );
+  };
+
+  const route = (request: MockApiRequest): Response => {
+    const { method, path, query } = request;
+    const body = (request.body ?? {}) as Record<string, unknown>;
+
+    if (method === "POST" && path === API_ENDPOINTS.RENDER_BUILD) {
+      if (!hasRenderableParts(body)) return errorResponse(400, "parts is required");
+      const job = createJob(body);
+      return json(200, createdResponse(job));
+    }
+
+    if (method === "GET" && matchesPath(`${API_ENDPOINTS.RENDER_BUILD}/:jobId`, path)) {
+      const job = jobs.get(decodeURIComponent(path.split("/")[2]));
+      if (!job) return errorResponse(404, "Render job not found");
+      job.observations++;
+      return json(200, jobStatus(job));
+    }
+
+    if (method === "POST" && path === API_ENDPOINTS.RENDER_BY_SHARE_CODE) {
+      const shareCode = typeof body.shareCode === "string" ? body.shareCode : "";
+      if (!shareCode) return errorResponse(400, "shareCode is required");
+      if (!builds[shareCode]) return errorResponse(404, "Build not found");
+      const job = createJob(body, shareCode);
+      return json(200, createdResponse(job, { share_code: shareCode }));
+    }
+
+    if (method === "POST" && path === API_ENDPOINTS.RENDER_BUILD_EXPERIMENTAL) {
+      if (!hasRenderableParts(body)) return errorResponse(400, "parts is required");
+      if (body.format === "sprite") {
+        const sheet = spriteSheet(6);
+        return new Response(sheet.toBlob(), {
+          headers: {
+            "Content-Type": "image/png",
+            [SPRITE_LAYOUT_HEADERS.cols]: String(sheet.cols),
+            [SPRITE_LAYOUT_HEADERS.rows]: String(sheet.rows),
+            [SPRITE_LAYOUT_HEADERS.totalFrames]: String(sheet.totalFrames),
+            ...CORS_HEADERS,
+          },
+        });
+      }
+      const video = createPlaceholderVideoBytes(`experimental-${++jobCounter}`);
+      return new Response(video.buffer as ArrayBuffer, {
+        headers: { "Content-Type": "video/mp4", ...CORS_HEADERS },
+      });
+    }
+
+    if (method === "GET" && matchesPath(`${API_ENDPOINTS.BUILD}/:shareCode`, path)) {
+      const shareCode = decodeURIComponent(path.split("/")[2]);
+      const build = builds[shareCode];
+      if (!build) return errorResponse(404, "Build not found");
+      const partDetails: Partial<Record<PartCategory, PartDetailsWithCategory[]>> = {};
+      for (const [category, ids] of Object.entries(build.parts) as [PartCategory, string[]][]) {
+        partDetails[category] = ids.flatMap((id) => partsById.get(id) ?? []);
+      }
+      return json(200, {
+        shareCode,
+        name: build.name ?? shareCode,
+        description: build.description ?? "",
+        parts: build.parts,
+        partDetails,
+        hasInteractiveModel: build.hasInteractiveModel ?? true,
+      });
+    }
+
+    if (method === "POST" && path === API_ENDPOINTS.PARTS) {
+      if (!Array.isArray(body.ids)) return errorResponse(400, "ids must be an array");
+      return json(200, { parts: body.ids.flatMap((id) => partsById.get(String(id)) ?? []) });
+    }
+
+    if (method === "GET" && path === API_ENDPOINTS.AVAILABLE_PARTS) {
+      const category = query.get("category") as PartCategory | null;
+      if (!category || !Object.values(PartCategory).includes(category)) {
+        return errorResponse(400, "Invalid category");
+      }
+      const limit = Math.min(
+        Number(query.get("limit") ?? DEFAULT_AVAILABLE_PARTS_LIMIT) || DEFAULT_AVAILABLE_PARTS_LIMIT,
+        MAX_AVAILABLE_PARTS_LIMIT
+      );
+      const skip = Number(query.get("skip") ?? 0) || 0;
+      const inCategory = parts.filter((part) => part.category === category);
+      const page = inCategory.slice(skip, skip + limit);
+      return json(200, {
+        data: { [category]: page.map(({ id, name, image }) => ({ id, name, image: image ?? "" })) },
+        category,
+        pagination: {
+          total: inCategory.length,
+          limit,
+          skip,
+          hasNext: skip + page.length < inCategory.length,
+          hasPrev: skip > 0,
+        },
+      });
+    }
+
+    return errorResponse(404, `No mock route for ${method} ${path}`);
+  };
+
+  const handle = async (incoming: Request): Promise<Response> => {
+    const url = new URL(incoming.url);
+    const text = incoming.method === "GET" || incoming.method === "HEAD" ? "" : await incoming.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : undefined;
+    } catch {
+      return errorResponse(400, "Request body must be JSON");
+    }
+
+    const request: MockApiRequest = {
+      method: incoming.method.toUpperCase(),
+      path: url.pathname.replace(/\/+$/, "") || "/",
+      query: url.searchParams,
+      headers: incoming.headers,
+      body,
+    };
+    if (request.method === "OPTIONS") {
+      return new Response(null, { status: 204, headers: CORS_HEADERS });
+    }
+    requests.push(request);
+
+    const delayMs = typeof options.delayMs === "function" ? options.delayMs(request) : options.delayMs;
+    await wait(delayMs ?? 0, incoming.signal);
+
+    const injection = takeInjection(request);
+    if (injection) {
+      return json(
+        injection.status,
+        injection.body ?? { error: `Injected ${injection.status} error` },
+        injection.headers
+      );
+    }
+    if (options.requireAuth && !/^Bearer \S+/.test(incoming.headers.get("Authorization") ?? "")) {
+      return errorResponse(401, "Missing or invalid token");
+    }
+    return route(request);
+  };
+
+  const listen = async (port = 0): Promise<MockRenderApiServer> => {
+    // A variable specifier keeps bundlers from pulling node:http into browser builds
+    const httpModuleName = "node:http";
+    const http = (await import(/* @vite-ignore */ httpModuleName)) as NodeHttpModule;
+
+    const server = http.createServer(async (incoming, outgoing) => {
+      try {
+        const decoder = new TextDecoder();
+        let text = "";
+        for await (const chunk of incoming) text += decoder.decode(chunk, { stream: true });
+        text += decoder.decode();
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(incoming.headers)) {
+          if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(", ") : value);
+        }
+        const method = incoming.method ?? "GET";
+        const response = await handle(
+          new Request(`http://${headers.get("host") ?? "localhost"}${incoming.url ?? "/"}`, {
+            method,
+            headers,
+            body: method === "GET" || method === "HEAD" ? undefined : text,
+          })
+        );
+        outgoing.writeHead(response.status, Object.fromEntries(response.headers));
+        outgoing.end(new Uint8Array(await response.arrayBuffer()));
+      } catch (error) {
+        outgoing.writeHead(500, { "Content-Type": "application/json" });
+        outgoing.end(new TextEncoder().encode(JSON.stringify({ error: String(error) })));
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, "127.0.0.1", resolve);
+    });
+    const address = server.address();
+    const boundPort = typeof address === "object" && address ? address.port : port;
+
+    return {
+      url: `http://127.0.0.1:${boundPort}`,
+      close: () =>
+        new Promise<void>((resolve, reject) =>
+          server.close((error) => (error ? reject(error) : resolve()))
+        ),
+    };
+  };
+
+  return {
+    fetch: (input, init) => handle(new Request(input, init)),
+    handle,
+    listen,
+    injectError: (injection) => {
+      injections.push(injection);
+    },
+    get requests() {
+      return requests;
+    },
+    get jobs() {
+      return jobs;
+    },
+    parts,
+    reset: () => {
+      requests = [];
+      jobs = new Map();
+      injections = [];
+    },
+  };
+};
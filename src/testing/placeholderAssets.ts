@@ -0,0 +1,37 @@
+/**
+ * Bytes standing in for an MP4 render: an ISO base media `ftyp` box followed
+ * by a `free` box carrying `label`. Players recognize the container but it has
+ * no frames - pass a real clip to the mock API when a test needs playback.
+ */
+export const createPlaceholderVideoBytes = (label = "buildcores mock render"): Uint8Array => {
+  const box = (type: string, payload: Uint8Array): Uint8Array => {
+    const bytes = new Uint8Array(8 + payload.length);
+    new DataView(bytes.buffer).setUint32(0, bytes.length);
+    bytes.set(new TextEncoder().encode(type), 4);
+    bytes.set(payload, 8);
+    return bytes;
+  };
+
+  const encoder = new TextEncoder();
+  // Major brand "isom", minor version 512, compatible brands "isom" and "mp41"
+  const ftypPayload = new Uint8Array(16);
+  ftypPayload.set(encoder.encode("isom"), 0);
+  new DataView(ftypPayload.buffer).setUint32(4, 512);
+  ftypPayload.set(encoder.encode("isommp41"), 8);
+
+  const ftyp = box("ftyp", ftypPayload);
+  const free = box("free", encoder.encode(label));
+  const bytes = new Uint8Array(ftyp.length + free.length);
+  bytes.set(ftyp, 0);
+  bytes.set(free, ftyp.length);
+  return bytes;
+};
+
+/** @internal */
+export const toDataUrl = (mimeType: string, content: Uint8Array): string => {
+  let binary = "";
+  content.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
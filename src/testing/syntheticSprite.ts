@@ -0,0 +1,306 @@
+export interface SyntheticSpriteSheetOptions {
+  /** Frames per row (default: 12) */
+  cols?: number;
+  /** Rows of frames (default: 6 - use 12 for a 144-frame "high" quality sheet) */
+  rows?: number;
+  /** Frame width in pixels (default: 64) */
+  frameWidth?: number;
+  /** Frame height in pixels (default: 64) */
+  frameHeight?: number;
+  /** Image format (default: "png") */
+  format?: "png" | "svg";
+  /** Print each frame's index in its top-left corner (default: true) */
+  showFrameNumbers?: boolean;
+}
+
+/**
+ * A generated sprite sheet. Every frame is filled with the color from
+ * `frameIndexToColor`, so the frame on a canvas can be read back from any
+ * pixel away from the top-left corner, where the frame number is printed.
+ */
+export interface SyntheticSpriteSheet {
+  cols: number;
+  rows: number;
+  totalFrames: number;
+  frameWidth: number;
+  frameHeight: number;
+  /** Sheet width in pixels */
+  width: number;
+  /** Sheet height in pixels */
+  height: number;
+  mimeType: "image/png" | "image/svg+xml";
+  /** Encoded image */
+  bytes: Uint8Array;
+  /** The image as a data URL, usable as an `<img>` source or mock asset URL */
+  dataUrl: string;
+  /** The image as a Blob, e.g. for `URL.createObjectURL` */
+  toBlob(): Blob;
+}
+
+type SpriteLayout = Pick<
+  SyntheticSpriteSheet,
+  "cols" | "rows" | "totalFrames" | "frameWidth" | "frameHeight" | "width" | "height"
+>;
+
+// Frames are colored in 16 steps per channel, up to 16^3 frames
+const COLOR_STEP = 16;
+const MAX_SYNTHETIC_FRAMES = COLOR_STEP ** 3;
+// How far a channel may drift (smoothing, color management) and still decode
+const COLOR_TOLERANCE = 3;
+
+/**
+ * Color a synthetic sprite frame is filled with. Channels sit in the middle
+ * of 16-value bands so small rendering differences still decode.
+ */
+export const frameIndexToColor = (frameIndex: number): [number, number, number] => {
+  if (!Number.isInteger(frameIndex) || frameIndex < 0 || frameIndex >= MAX_SYNTHETIC_FRAMES) {
+    throw new RangeError(`Synthetic sprite frames are numbered 0 to ${MAX_SYNTHETIC_FRAMES - 1}`);
+  }
+  const band = (value: number) => (value % COLOR_STEP) * COLOR_STEP + COLOR_STEP / 2;
+  return [
+    band(frameIndex),
+    band(Math.floor(frameIndex / COLOR_STEP)),
+    band(Math.floor(frameIndex / COLOR_STEP ** 2)),
+  ];
+};
+
+/**
+ * Frame index encoded by a pixel color, or null when the color is not a
+ * synthetic frame color - e.g. two frames blended evenly during a cross-fade.
+ * A faintly blended frame still decodes as the dominant one.
+ */
+export const colorToFrameIndex = (red: number, green: number, blue: number): number | null => {
+  let frameIndex = 0;
+  let weight = 1;
+  for (const channel of [red, green, blue]) {
+    const band = Math.floor(channel / COLOR_STEP);
+    if (Math.abs(channel - (band * COLOR_STEP + COLOR_STEP / 2)) > COLOR_TOLERANCE) return null;
+    frameIndex += band * weight;
+    weight *= COLOR_STEP;
+  }
+  return frameIndex;
+};
+
+// 3x5 pixel digits, one string per row
+const DIGIT_GLYPHS = [
+  ["111", "101", "101", "101", "111"],
+  ["010", "110", "010", "010", "111"],
+  ["111", "001", "111", "100", "111"],
+  ["111", "001", "111", "001", "111"],
+  ["101", "101", "111", "001", "001"],
+  ["111", "100", "111", "001", "111"],
+  ["111", "100", "111", "101", "111"],
+  ["111", "001", "001", "001", "001"],
+  ["111", "101", "111", "101", "111"],
+  ["111", "101", "111", "001", "111"],
+];
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// zlib stream of uncompressed deflate blocks - larger than a real encoder's
+// output, but small enough for test fixtures and free of dependencies
+const zlibStore = (data: Uint8Array): Uint8Array => {
+  const blockSize = 65535;
+  const blockCount = Math.max(1, Math.ceil(data.length / blockSize));
+  const out = new Uint8Array(2 + data.length + blockCount * 5 + 4);
+  const view = new DataView(out.buffer);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let offset = 2;
+  for (let block = 0; block < blockCount; block++) {
+    const chunk = data.subarray(block * blockSize, (block + 1) * blockSize);
+    out[offset] = block === blockCount - 1 ? 1 : 0;
+    view.setUint16(offset + 1, chunk.length, true);
+    view.setUint16(offset + 3, ~chunk.length & 0xffff, true);
+    out.set(chunk, offset + 5);
+    offset += 5 + chunk.length;
+  }
+
+  let a = 1;
+  let b = 0;
+  for (const byte of data) {
+    a = (a + byte) % 65521;
+    b = (b + a) % 65521;
+  }
+  view.setUint32(offset, ((b << 16) | a) >>> 0);
+  return out;
+};
+
+const encodePng = (width: number, height: number, rgb: Uint8Array): Uint8Array => {
+  // Each scanline starts with filter type 0 (none)
+  const raw = new Uint8Array((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+  }
+
+  const chunk = (type: string, data: Uint8Array): Uint8Array => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    out.set(new TextEncoder().encode(type), 4);
+    out.set(data, 8);
+    view.setUint32(8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+    return out;
+  };
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk("IHDR", header),
+    chunk("IDAT", zlibStore(raw)),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+};
+
+// Black or white, whichever reads better on the frame color
+const labelColor = ([red, green, blue]: [number, number, number]): [number, number, number] =>
+  red * 0.299 + green * 0.587 + blue * 0.114 > 140 ? [0, 0, 0] : [255, 255, 255];
+
+const renderPixels = (sheet: SpriteLayout, showFrameNumbers: boolean): Uint8Array => {
+  const { cols, frameWidth, frameHeight, width, height, totalFrames } = sheet;
+  const rgb = new Uint8Array(width * height * 3);
+  const fill = (x: number, y: number, w: number, h: number, color: [number, number, number]) => {
+    for (let row = y; row < y + h; row++) {
+      for (let col = x; col < x + w; col++) {
+        rgb.set(color, (row * width + col) * 3);
+      }
+    }
+  };
+
+  // Digit cells scaled so the number stays in the top quarter of the frame
+  const cell = Math.max(1, Math.floor(frameHeight / 20));
+  for (let frame = 0; frame < totalFrames; frame++) {
+    const x = (frame % cols) * frameWidth;
+    const y = Math.floor(frame / cols) * frameHeight;
+    const color = frameIndexToColor(frame);
+    fill(x, y, frameWidth, frameHeight, color);
+    // Skip numbers on frames too small to hold a digit
+    if (!showFrameNumbers || frameHeight < 7 * cell) continue;
+
+    const ink = labelColor(color);
+    String(frame)
+      .split("")
+      .forEach((digit, position) => {
+        const glyph = DIGIT_GLYPHS[Number(digit)];
+        const left = x + cell + position * 4 * cell;
+        if (left + 3 * cell > x + frameWidth) return;
+        glyph.forEach((line, glyphRow) => {
+          for (let glyphCol = 0; glyphCol < 3; glyphCol++) {
+            if (line[glyphCol] === "1") {
+              fill(left + glyphCol * cell, y + cell + glyphRow * cell, cell, cell, ink);
+            }
+          }
+        });
+      });
+  }
+  return rgb;
+};
+
+const renderSvg = (sheet: SpriteLayout, showFrameNumbers: boolean): string => {
+  const { cols, frameWidth, frameHeight, width, height, totalFrames } = sheet;
+  const fontSize = Math.max(6, Math.floor(frameHeight / 4));
+  const frames: string[] = [];
+  for (let frame = 0; frame < totalFrames; frame++) {
+    const x = (frame % cols) * frameWidth;
+    const y = Math.floor(frame / cols) * frameHeight;
+    const color = frameIndexToColor(frame);
+    frames.push(
+      `<rect x="${x}" y="${y}" width="${frameWidth}" height="${frameHeight}" fill="rgb(${color.join(",")})"/>`
+    );
+    if (showFrameNumbers) {
+      frames.push(
+        `<text x="${x + 2}" y="${y + 2}" font-size="${fontSize}" fill="rgb(${labelColor(color).join(",")})">${frame}</text>`
+      );
+    }
+  }
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" shape-rendering="crispEdges">` +
+    `<g font-family="monospace" dominant-baseline="hanging">${frames.join("")}</g></svg>`
+  );
+};
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Generate a sprite sheet with numbered, color-coded frames, for testing
+ * viewers without the render service. Works in Node and browsers.
+ *
+ * @example
+ * ```tsx
+ * // 144 frames, as served for frameQuality: 'high'
+ * const sheet = createSyntheticSpriteSheet({ cols: 12, rows: 12 });
+ * const mock = createMockRenderApi({ assetUrl: () => sheet.dataUrl });
+ * ```
+ */
+export const createSyntheticSpriteSheet = (
+  options: SyntheticSpriteSheetOptions = {}
+): SyntheticSpriteSheet => {
+  const {
+    cols = 12,
+    rows = 6,
+    frameWidth = 64,
+    frameHeight = 64,
+    format = "png",
+    showFrameNumbers = true,
+  } = options;
+  for (const [name, value] of Object.entries({ cols, rows, frameWidth, frameHeight })) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new RangeError(`${name} must be a positive integer`);
+    }
+  }
+  if (cols * rows > MAX_SYNTHETIC_FRAMES) {
+    throw new RangeError(`Synthetic sprite sheets hold at most ${MAX_SYNTHETIC_FRAMES} frames`);
+  }
+
+  const layout: SpriteLayout = {
+    cols,
+    rows,
+    totalFrames: cols * rows,
+    frameWidth,
+    frameHeight,
+    width: cols * frameWidth,
+    height: rows * frameHeight,
+  };
+  const mimeType = format === "svg" ? "image/svg+xml" : "image/png";
+  const bytes =
+    format === "svg"
+      ? new TextEncoder().encode(renderSvg(layout, showFrameNumbers))
+      : encodePng(layout.width, layout.height, renderPixels(layout, showFrameNumbers));
+
+  return {
+    ...layout,
+    mimeType,
+    bytes,
+    dataUrl: `data:${mimeType};base64,${toBase64(bytes)}`,
+    toBlob: () => new Blob([bytes.buffer as ArrayBuffer], { type: mimeType }),
+  };
+};
@@ -5,6 +5,8 @@ export interface BuildRenderVideoProps {
    * This object defines which PC components should be included in the 3D render.
    * Each part category contains an array with a single part ID that will be rendered.
    *
+   * **Note**: If `shareCode` is provided, it will be used instead of `parts`.
+   *
    * **Current Limitation**: Only 1 part per category is supported. Arrays must contain
    * exactly one part ID per category. Future versions will support multiple parts per category.
    *
@@ -40,7 +42,25 @@ export interface BuildRenderVideoProps {
    * Note: Part IDs must correspond to valid components in the BuildCores database.
    * Use the available parts API to get valid part IDs for each category.
    */
-  parts: RenderBuildRequest;
+  parts?: RenderBuildRequest;
+
+  /**
+   * Share code of an existing build to render as a video.
+   *
+   * The build is rendered with its existing interactive state, including case
+   * fan slot placements. If both `shareCode` and `parts` are provided,
+   * `shareCode` takes precedence.
+   *
+   * @example
+   * ```tsx
+   * <BuildRenderVideo
+   *   shareCode="abc123xyz"
+   *   size={500}
+   *   apiConfig={{ environment: 'prod', authToken: 'your-token' }}
+   * />
+   * ```
+   */
+  shareCode?: string;
 
   /**
    * Width and height in pixels. If only `size` is provided, both width and height use it.
@@ -52,7 +72,7 @@ export interface BuildRenderVideoProps {
 
   /**
    * API configuration for environment and authentication.
-   * This is required to make API calls to the BuildCores rendering service.
+   * Optional inside a `RenderClientProvider`, which supplies the client's config.
    *
    * @example
    * ```tsx
@@ -66,7 +86,7 @@ export interface BuildRenderVideoProps {
    * />
    * ```
    */
-  apiConfig: ApiConfig;
+  apiConfig?: ApiConfig;
 
   /**
    * Options to configure the internal useBuildRender hook
@@ -74,8 +94,30 @@ export interface BuildRenderVideoProps {
    */
   useBuildRenderOptions?: {
     mode?: "async" | "experimental";
+    onStatus?: (event: RenderJobStatusEvent) => void;
+    jobPersistence?: RenderJobPersistenceOptions | boolean;
+    cache?: RenderCache | false;
+    scheduler?: RenderScheduler | false;
+    priority?: number;
+    debounceMs?: number;
   };
 
+  /**
+   * Video resolved ahead of time with `resolveRender(input, config, { format: 'video' })`.
+   * While it matches the build and render options, the video is shown right
+   * away without calling the API.
+   *
+   * @example
+   * ```tsx
+   * // Server
+   * const initialRender = await resolveRender(parts, { authToken: apiKey }, { format: 'video' });
+   *
+   * // Client
+   * <BuildRenderVideo parts={parts} initialRender={initialRender} />
+   * ```
+   */
+  initialRender?: ResolvedRender;
+
   /**
    * Optional mouse sensitivity for dragging (default: 0.005).
    *
@@ -125,6 +167,98 @@ export interface BuildRenderVideoProps {
    * @default 0.01
    */
   touchSensitivity?: number;
+
+  /**
+   * Show grid in render.
+   * Works for both parts and shareCode rendering.
+   */
+  showGrid?: boolean;
+
+  /**
+   * Environment scene preset for rendering.
+   */
+  scene?: RenderScene;
+
+  /**
+   * Whether to show the environment background.
+   */
+  showBackground?: boolean;
+
+  /**
+   * Enable winter mode effects.
+   * Mutually exclusive with springMode.
+   */
+  winterMode?: boolean;
+
+  /**
+   * Enable spring mode effects.
+   * Mutually exclusive with winterMode.
+   */
+  springMode?: boolean;
+
+  /**
+   * Camera offset X for composition.
+   * Positive values shift the build to the right, leaving room for text overlay on the left.
+   */
+  cameraOffsetX?: number;
+
+  /**
+   * Camera zoom level for server-side rendering.
+   * Values > 1 move the camera further away, values < 1 move it closer.
+   * Range: 0.5 to 2.0
+   */
+  cameraZoom?: number;
+
+  /**
+   * Grid appearance settings for thicker/more visible grid in renders.
+   */
+  gridSettings?: GridSettings;
+
+  /**
+   * Animation mode for the auto-rotation.
+   *
+   * - **bounce**: (default) Quick back-and-forth partial rotation with pauses
+   * - **spin360**: Slow continuous 360° rotation
+   *
+   * @example
+   * ```tsx
+   * <BuildRenderVideo
+   *   shareCode="abc123"
+   *   animationMode="spin360"
+   *   spinDuration={12000}  // 12 seconds per full rotation
+   * />
+   * ```
+   *
+   * @default "bounce"
+   */
+  animationMode?: 'bounce' | 'spin360';
+
+  /**
+   * Duration in milliseconds for one full 360° rotation.
+   * Only applies when `animationMode` is "spin360".
+   *
+   * @default 10000 (10 seconds)
+   */
+  spinDuration?: number;
+
+  /**
+   * Whether to enable user interaction (drag to rotate, scroll to zoom).
+   *
+   * When set to `false`, dragging and zooming are disabled, the cursor shows
+   * as "pointer" and click events pass through (useful for wrapping in a link).
+   *
+   * @default true
+   */
+  interactive?: boolean;
+
+  /**
+   * Initial zoom level for the build.
+   * Range: 0.5 (50%) to 2.5 (250%). Values less than 1 make the build appear smaller,
+   * values greater than 1 make it appear larger.
+   *
+   * @default 1
+   */
+  zoom?: number;
 }
 
 export interface BuildRenderProps {
@@ -190,7 +324,7 @@ export interface BuildRenderProps {
 
   /**
    * API configuration for environment and authentication.
-   * This is required to make API calls to the BuildCores rendering service.
+   * Optional inside a `RenderClientProvider`, which supplies the client's config.
    *
    * @example
    * ```tsx
@@ -204,7 +338,7 @@ export interface BuildRenderProps {
    * />
    * ```
    */
-  apiConfig: ApiConfig;
+  apiConfig?: ApiConfig;
 
   /**
    * Options to configure the internal useSpriteRender hook
@@ -212,8 +346,34 @@ export interface BuildRenderProps {
    */
   useSpriteRenderOptions?: {
     mode?: "async" | "experimental";
+    onStatus?: (event: RenderJobStatusEvent) => void;
+    jobPersistence?: RenderJobPersistenceOptions | boolean;
+    cache?: RenderCache | false;
+    scheduler?: RenderScheduler | false;
+    priority?: number;
+    debounceMs?: number;
   };
 
+  /**
+   * Sprite sheet resolved ahead of time with `resolveRender`. While it matches
+   * the build and render options, the viewer skips the render API entirely and
+   * shows the render's screenshot (when there is one) until the sprite loads,
+   * instead of "Loading Build...".
+   *
+   * @example
+   * ```tsx
+   * // Server (e.g. a Next.js server component or a Remix loader)
+   * const initialRender = await resolveRender(
+   *   { type: 'shareCode', shareCode: 'abc123xyz' },
+   *   { environment: 'prod', authToken: process.env.BUILDCORES_API_KEY }
+   * );
+   *
+   * // Client
+   * <BuildRender shareCode="abc123xyz" initialRender={initialRender} />
+   * ```
+   */
+  initialRender?: ResolvedRender;
+
   /**
    * Optional mouse sensitivity for dragging (default: 0.05).
    *
@@ -448,6 +608,220 @@ export interface ApiConfig {
     token: string;
     expiresAt: string;
   }>;
+
+  /**
+   * How long before `expiresAt` a cached session token is treated as expired
+   * and refreshed, in milliseconds.
+   *
+   * @default 15000
+   */
+  sessionTokenRefreshWindowMs?: number;
+
+  /**
+   * Refresh the session token in the background when it enters the refresh
+   * window, so requests do not wait on your token endpoint. Only tokens that
+   * were used since their last refresh are renewed, so idle pages stop
+   * minting tokens.
+   *
+   * @default false
+   */
+  proactiveSessionRefresh?: boolean;
+
+  /**
+   * Called after `getRenderSessionToken` returned a new token
+   */
+  onTokenRefreshed?: (session: { token: string; expiresAt: string }) => void;
+
+  /**
+   * Called when obtaining a session token fails, including background
+   * refreshes that have no request to fail.
+   *
+   * @example
+   * ```tsx
+   * const config: ApiConfig = {
+   *   environment: 'prod',
+   *   authMode: 'session',
+   *   getRenderSessionToken: fetchRenderSessionToken,
+   *   onSessionError: (error) => reportError(error),
+   * };
+   * ```
+   */
+  onSessionError?: (error: Error) => void;
+
+  /**
+   * Base URL of the Render API, without a trailing slash.
+   * Override this to route requests through a reverse proxy, a regional mirror,
+   * or a local stand-in server for integration tests.
+   *
+   * @default "https://www.renderapi.buildcores.com"
+   *
+   * @example
+   * ```tsx
+   * const config: ApiConfig = {
+   *   environment: 'prod',
+   *   baseUrl: 'https://render-proxy.example.com',
+   * };
+   * ```
+   */
+  baseUrl?: string;
+
+  /**
+   * Custom fetch implementation used for every API request.
+   * Defaults to the global `fetch`.
+   *
+   * @example
+   * ```tsx
+   * const config: ApiConfig = {
+   *   environment: 'prod',
+   *   fetch: (input, init) => mockServer.handle(new Request(input, init)),
+   * };
+   * ```
+   */
+  fetch?: typeof fetch;
+
+  /**
+   * Retry policy for idempotent requests: job status polls, build lookups,
+   * available parts, parts by IDs and the experimental (pregenerated) endpoints.
+   * Fields you omit keep their defaults; pass `false` to disable retries.
+   *
+   * @default { maxAttempts: 3, initialDelayMs: 500, maxDelayMs: 8000, retryOnStatuses: [408, 429, 500, 502, 503, 504] }
+   *
+   * @example
+   * ```tsx
+   * const config: ApiConfig = {
+   *   environment: 'prod',
+   *   retry: { maxAttempts: 5, maxDelayMs: 15000 },
+   * };
+   * ```
+   */
+  retry?: RetryPolicy | false;
+
+  /**
+   * Retry policy for job-creation POSTs (`/render-build`, `/render-by-share-code`).
+   * The default only retries statuses where the server did not accept the job,
+   * and never retries network errors, so a job is not submitted twice by accident.
+   * Pass `false` to disable retries.
+   *
+   * @default { maxAttempts: 2, retryOnStatuses: [429, 503], retryOnNetworkError: false }
+   */
+  jobCreationRetry?: RetryPolicy | false;
+
+  /**
+   * Called when a render request contains an option the target endpoint cannot
+   * honor. The option is left out of the request body either way; without a
+   * handler nothing is logged.
+   *
+   * @example
+   * ```tsx
+   * const config: ApiConfig = {
+   *   environment: 'prod',
+   *   onWarning: (warning) => telemetry.track('render_option_dropped', warning),
+   * };
+   * ```
+   */
+  onWarning?: (warning: RenderRequestWarning) => void;
+}
+
+/**
+ * Outgoing request as seen by a render client's request interceptors
+ */
+export interface RenderClientRequest {
+  url: string;
+  init: RequestInit & { headers: Headers };
+}
+
+/**
+ * Runs before every HTTP request of a render client, including retries.
+ * Mutate the request or return a replacement.
+ */
+export type RenderRequestInterceptor = (
+  request: RenderClientRequest
+) => RenderClientRequest | void | Promise<RenderClientRequest | void>;
+
+/**
+ * Runs after every HTTP response of a render client, before it is parsed.
+ * Return a replacement response, or nothing to keep it.
+ */
+export type RenderResponseInterceptor = (
+  response: Response,
+  request: RenderClientRequest
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Render options a client applies to every render unless the call sets them
+ */
+export type RenderOptionDefaults = Omit<RenderBuildRequest, "parts">;
+
+/**
+ * Configuration for `createRenderClient`
+ */
+export interface RenderClientConfig extends ApiConfig {
+  /**
+   * Hooks around every HTTP request, e.g. for custom headers, tracing IDs or logging.
+   * Interceptors run in array order.
+   *
+   * @example
+   * ```tsx
+   * const client = createRenderClient({
+   *   environment: 'prod',
+   *   interceptors: {
+   *     request: [({ init }) => init.headers.set('X-Trace-Id', crypto.randomUUID())],
+   *     response: [(response, { url }) => console.debug(response.status, url)],
+   *   },
+   * });
+   * ```
+   */
+  interceptors?: {
+    request?: RenderRequestInterceptor[];
+    response?: RenderResponseInterceptor[];
+  };
+  /**
+   * Render options applied to every render made through the client
+   * (and by components under its `RenderClientProvider`) unless set per call
+   */
+  renderDefaults?: RenderOptionDefaults;
+}
+
+/**
+ * Reported when a render request contains a field the target endpoint cannot honor
+ */
+export interface RenderRequestWarning {
+  /**
+   * - unsupported_option: a render option that does not apply to this request
+   *   (e.g. `frameQuality` on a video render)
+   * - unknown_option: a field that is not part of the endpoint's request body
+   */
+  code: "unsupported_option" | "unknown_option";
+  /** Endpoint the request was serialized for */
+  endpoint: string;
+  /** Name of the field that was left out */
+  field: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Retry policy with exponential backoff and jitter for transient API failures
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first request (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelayMs?: number;
+  /** Upper bound for the backoff delay in milliseconds (default: 8000) */
+  maxDelayMs?: number;
+  /** Factor applied to the delay after every failed attempt (default: 2) */
+  backoffMultiplier?: number;
+  /** Randomize each delay between half and the full backoff value (default: true) */
+  jitter?: boolean;
+  /** HTTP statuses that trigger a retry (default: [408, 429, 500, 502, 503, 504]) */
+  retryOnStatuses?: number[];
+  /** Retry when the request fails before a response arrives (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Wait for the server's `Retry-After` header instead of the backoff delay when present (default: true) */
+  respectRetryAfter?: boolean;
+  /** Longest `Retry-After` delay to honor in milliseconds (default: 30000) */
+  maxRetryAfterMs?: number;
 }
 
 /**
@@ -562,7 +936,7 @@ export interface RenderBuildRequest {
   format?: "video" | "sprite";
 
   /**
-   * Desired canvas pixel width (256-2000).
+   * Desired canvas pixel width (256-8192).
    * Must be provided together with height.
    *
    * @example
@@ -577,7 +951,7 @@ export interface RenderBuildRequest {
   width?: number;
 
   /**
-   * Desired canvas pixel height (256-2000).
+   * Desired canvas pixel height (256-8192).
    * Must be provided together with width.
    *
    * @example
@@ -767,16 +1141,298 @@ export interface AvailablePartsResponse {
   pagination?: AvailablePartsPagination;
 }
 
+/**
+ * Per-call options accepted by every API function
+ */
+export interface ApiRequestOptions {
+  /**
+   * Abort signal that cancels in-flight requests and any polling in progress.
+   * Aborted calls reject with the signal's abort reason (an `AbortError` by default).
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Lifecycle status of an async render job
+ */
+export type RenderJobStatus = "queued" | "processing" | "completed" | "error";
+
+/**
+ * Response from creating an async render job (`POST /render-build`)
+ */
+export interface RenderJobCreateResponse {
+  job_id: string;
+  status: RenderJobStatus;
+  /** Asset URLs, when a cache hit returns an already completed job */
+  url?: string | null;
+  video_url?: string | null;
+  sprite_url?: string | null;
+  screenshot_url?: string | null;
+  sprite_layout?: RenderJobStatusResponse["sprite_layout"];
+  sprite_manifest_url?: string | null;
+  /** The job was completed before and is returned from the render cache */
+  cached?: boolean;
+  /** An identical job was already in flight and is shared */
+  reused?: boolean;
+}
+
+/**
+ * Response from polling an async render job (`GET /render-build/:jobId`)
+ */
+export interface RenderJobStatusResponse {
+  job_id: string;
+  status: RenderJobStatus;
+  url?: string | null;
+  video_url?: string | null;
+  sprite_url?: string | null;
+  screenshot_url?: string | null;
+  /** Grid of the sprite sheet (sprite jobs) */
+  sprite_layout?: { cols: number; rows: number; total_frames?: number } | null;
+  /** JSON sidecar describing the sprite sheet grid, when `sprite_layout` is not inlined */
+  sprite_manifest_url?: string | null;
+  error?: string | null;
+  end_time?: string | null;
+}
+
+/**
+ * Status update reported while a render job is submitted and polled
+ */
+export interface RenderJobStatusEvent {
+  /** Job identifier returned at creation */
+  jobId: string;
+  /** Status observed in this update */
+  status: RenderJobStatus;
+  /** Status from the previous update, or null for the creation response */
+  previousStatus: RenderJobStatus | null;
+  /** Milliseconds since the job was submitted */
+  elapsedMs: number;
+  /** Number of status polls so far (0 for the creation response) */
+  pollCount: number;
+  /** Raw creation or status payload */
+  response: RenderJobCreateResponse | RenderJobStatusResponse;
+}
+
+/**
+ * State passed to a polling strategy after each status poll
+ */
+export interface PollingContext {
+  /** Number of status polls made so far (1 after the first poll) */
+  pollCount: number;
+  /** Milliseconds spent polling so far */
+  elapsedMs: number;
+  /** Job status returned by the latest poll */
+  status: RenderJobStatus;
+  /** Delay requested by the server through a `Retry-After` header, if any */
+  retryAfterMs?: number;
+}
+
+/**
+ * Returns how long to wait, in milliseconds, before the next status poll
+ */
+export type PollingStrategy = (context: PollingContext) => number;
+
+/**
+ * Options for functions that submit a render job and poll until it completes
+ */
+export interface RenderJobPollingOptions extends ApiRequestOptions {
+  /**
+   * Fixed polling interval in milliseconds.
+   * When set (and `pollingStrategy` is not), every poll waits exactly this long.
+   */
+  pollIntervalMs?: number;
+  /**
+   * Schedule for status polls. Defaults to an adaptive schedule that polls
+   * quickly at first and backs off up to 4 seconds, honoring `Retry-After`.
+   * See `createAdaptivePollingStrategy` and `createFixedPollingStrategy`.
+   */
+  pollingStrategy?: PollingStrategy;
+  /**
+   * Maximum time in milliseconds to spend polling (default: 120000 = 2 minutes).
+   * Delays are shortened and in-flight polls aborted so the deadline is exact.
+   */
+  timeoutMs?: number;
+  /**
+   * Called with the creation response and after every status poll.
+   * Compare `status` with `previousStatus` to react only to transitions.
+   */
+  onStatus?: (event: RenderJobStatusEvent) => void;
+  /**
+   * Persist the pending job ID keyed by a hash of the render input, so a page
+   * reload or remount resumes polling the same job instead of submitting a new one.
+   * `true` uses sessionStorage; pass options for a custom store or TTL.
+   * With session auth the key holds the in-memory identity of
+   * `getRenderSessionToken`, so jobs resume across remounts but not reloads.
+   *
+   * @default false
+   */
+  jobPersistence?: RenderJobPersistenceOptions | boolean;
+  /**
+   * Cache of finished renders keyed by a hash of the render input.
+   * On a hit the URL is returned without submitting a job; completed
+   * renders are stored in it. See `createRenderCache`.
+   *
+   * @default undefined (no caching)
+   */
+  cache?: RenderCache;
+  /**
+   * Scheduler that limits how many render jobs run at once and shares one
+   * job between identical concurrent requests. Coalesced callers share the
+   * first caller's polling options. See `createRenderScheduler`.
+   *
+   * @default undefined (run immediately)
+   */
+  scheduler?: RenderScheduler;
+  /**
+   * Queue priority when a `scheduler` is used - higher runs first (default: 0)
+   */
+  priority?: number;
+}
+
+/**
+ * Options for a single scheduled render
+ */
+export interface RenderScheduleOptions {
+  /** Higher priorities leave the queue first; equal priorities run in order (default: 0) */
+  priority?: number;
+  /** Cancels this caller's interest. The job is aborted once every caller sharing it has cancelled. */
+  signal?: AbortSignal;
+  /** Receives the shared job's status events, starting with the latest one when joining */
+  onStatus?: (event: RenderJobStatusEvent) => void;
+}
+
+/**
+ * Shared queue for render jobs: identical concurrent requests (same key) share
+ * one run, at most `maxConcurrent` runs are in flight, and queued runs leave
+ * the queue by priority.
+ */
+export interface RenderScheduler {
+  /**
+   * Run `task` under `key`, or join the queued or running task with the same key
+   */
+  schedule<T>(
+    key: string,
+    task: (signal: AbortSignal, emitStatus: (event: RenderJobStatusEvent) => void) => Promise<T>,
+    options?: RenderScheduleOptions
+  ): Promise<T>;
+  /** Change the priority of a queued task, e.g. when its viewer scrolls into view */
+  prioritize(key: string, priority: number): void;
+  /** Cancel a queued or running task for every caller sharing it */
+  cancel(key: string, reason?: unknown): void;
+  /** Number of running and queued tasks */
+  getStats(): { running: number; queued: number };
+}
+
+export interface RenderSchedulerOptions {
+  /** Maximum number of render jobs in flight at once (default: 4) */
+  maxConcurrent?: number;
+}
+
+/**
+ * Cache of finished renders (asset URL, job, screenshot and sprite layout). Keys come from `createRenderKey`, so
+ * the same parts (in any order) or share code with the same options share an entry.
+ *
+ * @example
+ * ```tsx
+ * const cache = createRenderCache({ store: createLocalStorageRenderCacheStore() });
+ * await renderByShareCode('abc123xyz', config, { cache });
+ *
+ * // Drop the entry after the build was edited
+ * await cache.invalidate(createRenderKey({ type: 'shareCode', shareCode: 'abc123xyz' }, config));
+ * ```
+ */
+export interface RenderCache {
+  /** Synchronous lookup in the in-memory layer only */
+  peek(key: string): RenderBuildAsyncResponse | null;
+  /** Look up a render in memory, then in the persistent store */
+  get(key: string): Promise<RenderBuildAsyncResponse | null>;
+  /** Store a finished render, optionally with its own time to live in milliseconds */
+  set(key: string, result: RenderBuildAsyncResponse, ttlMs?: number): Promise<void>;
+  /** Remove one entry */
+  invalidate(key: string): Promise<void>;
+  /** Remove every entry */
+  clear(): Promise<void>;
+}
+
+/**
+ * Persistent layer behind a render cache. Like `RenderJobStore`, plus key
+ * enumeration so the cache can be cleared.
+ */
+export interface RenderCacheStore extends RenderJobStore {
+  keys(): string[] | Promise<string[]>;
+}
+
+export interface RenderCacheOptions {
+  /** Persistent layer (default: none - entries live in memory only) */
+  store?: RenderCacheStore;
+  /** How long an entry is served, in milliseconds (default: 1800000 = 30 minutes) */
+  ttlMs?: number;
+  /** Maximum number of in-memory entries; the oldest are evicted first (default: 200) */
+  maxEntries?: number;
+  /** Prefix for persistent store keys (default: "buildcores:render-cache:") */
+  keyPrefix?: string;
+}
+
+/**
+ * Key-value store for pending render jobs. Matches the Web Storage API, so
+ * `window.sessionStorage` and `window.localStorage` can be passed directly.
+ * Methods may also return promises for async stores.
+ */
+export interface RenderJobStore {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Opt-in persistence of pending render jobs, so a reload or remount resumes
+ * polling the existing job instead of submitting a new one
+ */
+export interface RenderJobPersistenceOptions {
+  /** Where pending jobs are stored (default: sessionStorage, or memory when unavailable) */
+  store?: RenderJobStore;
+  /** How long a stored job may be resumed, in milliseconds (default: 600000 = 10 minutes) */
+  ttlMs?: number;
+  /** Prefix for storage keys (default: "buildcores:render-job:") */
+  keyPrefix?: string;
+}
+
 /**
  * Query options for fetching available parts
  */
-export interface GetAvailablePartsOptions {
+export interface GetAvailablePartsOptions extends ApiRequestOptions {
   /** Number of parts to return (default 20, min 1, max 100) */
   limit?: number;
   /** Number of parts to skip for pagination (default 0) */
   skip?: number;
 }
 
+/**
+ * Options for walking every page of available parts
+ */
+export interface IterateAvailablePartsOptions extends ApiRequestOptions {
+  /** Parts requested per page (default and maximum: 100) */
+  pageSize?: number;
+  /** Number of parts to skip before the first page (default 0) */
+  skip?: number;
+  /** Request the next page while the current one is being consumed (default: true) */
+  prefetch?: boolean;
+}
+
+export interface GetAllAvailablePartsOptions extends IterateAvailablePartsOptions {
+  /** Stop after this many parts, as a guard against runaway pagination (default: 5000) */
+  maxParts?: number;
+}
+
+/**
+ * Every available part of a category, collected across pages
+ */
+export interface AllAvailablePartsResponse {
+  category: PartCategory;
+  parts: PartDetails[];
+  /** True when `maxParts` was reached before the last page */
+  truncated: boolean;
+}
+
 // ============================================
 // Build and Parts API Types
 // ============================================
@@ -851,6 +1507,15 @@ export interface PartsResponse {
   parts: PartDetailsWithCategory[];
 }
 
+/**
+ * Result of `getPartsByIds`: the parts from every `POST /parts` request,
+ * plus the requested IDs none of them returned
+ */
+export interface PartsByIdsResponse extends PartsResponse {
+  /** Requested IDs the API returned no part for */
+  missingIds: string[];
+}
+
 /**
  * Grid appearance settings for renders
  */
@@ -886,7 +1551,7 @@ export type RenderScene =
 /**
  * Options for rendering a build by share code
  */
-export interface RenderByShareCodeOptions {
+export interface RenderByShareCodeOptions extends RenderJobPollingOptions {
   /** Output format - video (MP4) or sprite (WebP sprite sheet) */
   format?: "video" | "sprite";
   /** Desired canvas pixel width (256-8192) */
@@ -913,12 +1578,17 @@ export interface RenderByShareCodeOptions {
   frameQuality?: 'standard' | 'high';
   /** Camera zoom level for rendering. Values > 1 move camera further (build appears smaller). Range: 0.5 to 2.0 */
   cameraZoom?: number;
-  /** Polling interval in milliseconds (default: 1500) */
-  pollIntervalMs?: number;
-  /** Timeout in milliseconds (default: 120000 = 2 minutes) */
-  timeoutMs?: number;
 }
 
+/**
+ * Options for `createRenderByShareCodeJob` - the render options and abort
+ * signal, without the polling settings
+ */
+export type RenderByShareCodeJobOptions = Omit<
+  RenderByShareCodeOptions,
+  Exclude<keyof RenderJobPollingOptions, keyof ApiRequestOptions>
+>;
+
 /**
  * Response from the render by share code endpoint (job creation).
  */
@@ -926,7 +1596,7 @@ export interface RenderByShareCodeJobResponse {
   /** Unique job identifier for polling status */
   job_id: string;
   /** Current job status */
-  status: "queued" | "processing" | "completed" | "error";
+  status: RenderJobStatus;
   /** The share code of the build being rendered */
   share_code: string;
 }
@@ -943,4 +1613,62 @@ export interface RenderByShareCodeJobResponse {
 export interface RenderByShareCodeResponse {
   /** URL to the rendered video or sprite sheet */
   videoUrl: string;
+  /** Render job that produced the asset (absent when served from a cache) */
+  jobId?: string;
+  /** Still image of the build, when the render service produced one */
+  screenshotUrl?: string;
+  /**
+   * Grid of a sprite sheet, when the render service reported one in the job
+   * status or a sidecar manifest (absent when served from a cache)
+   */
+  spriteLayout?: SpriteLayout;
+}
+
+/**
+ * Grid of frames in a sprite sheet, read left to right, top to bottom
+ */
+export interface SpriteLayout {
+  cols: number;
+  rows: number;
+  /** Frames in the sheet - the last row may be partly empty */
+  totalFrames: number;
+}
+
+/**
+ * A finished render job, as returned by `renderBuild` and `renderByShareCode`
+ */
+export interface RenderBuildAsyncResponse {
+  /** Final URL to the rendered MP4 (or sprite) asset */
+  videoUrl: string;
+  /** Render job that produced the asset */
+  jobId?: string;
+  /** Still image of the build, when the render service produced one */
+  screenshotUrl?: string;
+  /** Grid of a sprite sheet, when the render service reported one */
+  spriteLayout?: SpriteLayout;
+}
+
+/**
+ * A finished render resolved ahead of time (e.g. on the server) with
+ * `resolveRender`. Plain JSON, so it can be passed from a server component,
+ * `getServerSideProps` or a loader to `BuildRender` / `BuildRenderVideo`
+ * through their `initialRender` prop.
+ */
+export interface ResolvedRender {
+  /** Shape version of this object */
+  version: 1;
+  /** "sprite" for `BuildRender`, "video" for `BuildRenderVideo` */
+  format: "sprite" | "video";
+  /** Sprite sheet or video URL */
+  url: string;
+  /** Render key of the input without credentials, used to match the render to a viewer's props */
+  renderKey: string;
+  /** Render job that produced the asset, or null when it came from a cache */
+  jobId: string | null;
+  /** Still image of the build, when the render service produced one */
+  screenshotUrl: string | null;
+  /** Sprite sheet grid, or null for videos */
+  layout: SpriteLayout | null;
+  /** When the render was resolved, as an ISO 8601 timestamp */
+  resolvedAt: string;
 }
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { resolveRender } from "./prerender";
+import { createMockRenderApi } from "./testing";
+import { PartCategory, RenderBuildRequest } from "./types";
+import {
+  CAMERA_OFFSET_X_RANGE,
+  CAMERA_ZOOM_RANGE,
+  RENDER_DIMENSION_RANGE,
+  RenderValidationError,
+  validateRenderRequest,
+} from "./validation";
+
+const parts: RenderBuildRequest["parts"] = { [PartCategory.CPU]: ["cpu-1"] };
+
+const codesOf = (request: Parameters<typeof validateRenderRequest>[0]) =>
+  validateRenderRequest(request).issues.map(({ field, code }) => `${field}:${code}`);
+
+describe("validateRenderRequest", () => {
+  it("accepts requests at the edges of every documented range", () => {
+    const result = validateRenderRequest({
+      parts,
+      width: RENDER_DIMENSION_RANGE.min,
+      height: RENDER_DIMENSION_RANGE.max,
+      cameraOffsetX: CAMERA_OFFSET_X_RANGE.min,
+      cameraZoom: CAMERA_ZOOM_RANGE.max,
+      gridSettings: { color: "#6f6f6f" },
+    });
+
+    expect(result).toEqual({ valid: true, issues: [] });
+  });
+
+  it("reports dimensions, camera values and colors outside their ranges", () => {
+    expect(
+      codesOf({
+        parts,
+        width: RENDER_DIMENSION_RANGE.min - 1,
+        height: 1080.5,
+        cameraOffsetX: CAMERA_OFFSET_X_RANGE.max + 0.01,
+        cameraZoom: CAMERA_ZOOM_RANGE.min - 0.01,
+        gridSettings: { color: "grey" },
+      })
+    ).toEqual([
+      "width:invalid_dimension",
+      "height:invalid_dimension",
+      "cameraOffsetX:camera_offset_out_of_range",
+      "cameraZoom:camera_zoom_out_of_range",
+      "gridSettings.color:invalid_grid_color",
+    ]);
+  });
+
+  it("requires width and height together", () => {
+    expect(codesOf({ parts, width: 1920 })).toEqual(["height:incomplete_dimensions"]);
+  });
+
+  it("allows one part per category", () => {
+    expect(
+      codesOf({ parts: { [PartCategory.CPU]: ["cpu-1"], [PartCategory.GPU]: ["gpu-1", "gpu-2"] } })
+    ).toEqual(["parts.GPU:multiple_parts_in_category"]);
+  });
+
+  it("reports missing parts, unknown categories and empty IDs", () => {
+    expect(codesOf({ parts: {} })).toEqual(["parts:missing_parts"]);
+    expect(
+      codesOf({ parts: { [PartCategory.CPU]: [" "], Sound: ["x"] } as RenderBuildRequest["parts"] })
+    ).toEqual(["parts.CPU:invalid_part_id", "parts.Sound:unknown_category"]);
+  });
+
+  it("checks share code requests and their options", () => {
+    expect(
+      codesOf({ shareCode: "", winterMode: true, springMode: true, format: "gif" as "video" })
+    ).toEqual([
+      "shareCode:missing_share_code",
+      "format:invalid_option",
+      "springMode:conflicting_season_modes",
+    ]);
+  });
+});
+
+describe("resolveRender validation", () => {
+  it("throws RenderValidationError without calling the API", async () => {
+    const mock = createMockRenderApi();
+
+    const error = await resolveRender(
+      { parts: { [PartCategory.GPU]: ["gpu-1", "gpu-2"] }, cameraZoom: 3 },
+      { baseUrl: "https://mock.local", fetch: mock.fetch }
+    ).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RenderValidationError);
+    expect(error.issues.map(({ code }: { code: string }) => code)).toEqual([
+      "multiple_parts_in_category",
+      "camera_zoom_out_of_range",
+    ]);
+    expect(mock.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  GridSettings,
+  PartCategory,
+  RenderBuildRequest,
+  RenderByShareCodeOptions,
+} from "./types";
+import { RenderBadRequestError } from "./errors";
+
+export type RenderValidationIssueCode =
+  | "missing_parts"
+  | "unknown_category"
+  | "multiple_parts_in_category"
+  | "invalid_part_id"
+  | "missing_share_code"
+  | "incomplete_dimensions"
+  | "invalid_dimension"
+  | "conflicting_season_modes"
+  | "camera_offset_out_of_range"
+  | "camera_zoom_out_of_range"
+  | "invalid_grid_color"
+  | "invalid_option";
+
+/**
+ * A single problem found in a render request
+ */
+export interface RenderValidationIssue {
+  /** Request field the issue refers to (e.g. "width", "parts.GPU", "gridSettings.color") */
+  field: string;
+  /** Machine-readable issue code */
+  code: RenderValidationIssueCode;
+  /** Human-readable description */
+  message: string;
+}
+
+export interface RenderValidationResult {
+  valid: boolean;
+  issues: RenderValidationIssue[];
+}
+
+/**
+ * Input accepted by validateRenderRequest - a parts request, or a share code
+ * with its render options
+ */
+export type RenderValidationInput =
+  | RenderBuildRequest
+  | ({ shareCode: string } & RenderByShareCodeOptions);
+
+/**
+ * Thrown before any network call when a render request fails client-side validation
+ */
+export class RenderValidationError extends RenderBadRequestError {
+  readonly issues: RenderValidationIssue[];
+
+  constructor(issues: RenderValidationIssue[]) {
+    super(issues.map((issue) => issue.message).join("; "));
+    this.name = "RenderValidationError";
+    this.issues = issues;
+  }
+}
+
+// Documented limits (see docs/technical/backend-api-reference.md)
+export const RENDER_DIMENSION_RANGE = { min: 256, max: 8192 } as const;
+export const CAMERA_OFFSET_X_RANGE = { min: -0.3, max: 0.3 } as const;
+export const CAMERA_ZOOM_RANGE = { min: 0.5, max: 2.0 } as const;
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/;
+const PART_CATEGORIES = new Set<string>(Object.values(PartCategory));
+
+const validateParts = (parts: RenderBuildRequest["parts"] | undefined, issues: RenderValidationIssue[]) => {
+  if (!parts || typeof parts !== "object") {
+    issues.push({ field: "parts", code: "missing_parts", message: "parts is required" });
+    return;
+  }
+
+  let partCount = 0;
+  for (const [category, ids] of Object.entries(parts)) {
+    const field = `parts.${category}`;
+    if (!PART_CATEGORIES.has(category)) {
+      issues.push({ field, code: "unknown_category", message: `Unknown part category "${category}"` });
+      continue;
+    }
+    if (!ids || ids.length === 0) continue;
+    if (ids.length > 1) {
+      issues.push({
+        field,
+        code: "multiple_parts_in_category",
+        message: `Only one part per category is supported (${category} has ${ids.length})`,
+      });
+    }
+    if (ids.some((id) => typeof id !== "string" || id.trim() === "")) {
+      issues.push({ field, code: "invalid_part_id", message: `${category} contains an empty part ID` });
+    }
+    partCount += ids.length;
+  }
+
+  if (partCount === 0) {
+    issues.push({ field: "parts", code: "missing_parts", message: "At least one part is required" });
+  }
+};
+
+const validateDimensions = (
+  width: number | undefined,
+  height: number | undefined,
+  issues: RenderValidationIssue[]
+) => {
+  if ((width === undefined) !== (height === undefined)) {
+    issues.push({
+      field: width === undefined ? "width" : "height",
+      code: "incomplete_dimensions",
+      message: "width and height must be provided together",
+    });
+  }
+
+  for (const [field, value] of [["width", width], ["height", height]] as const) {
+    if (value === undefined) continue;
+    if (
+      !Number.isInteger(value) ||
+      value < RENDER_DIMENSION_RANGE.min ||
+      value > RENDER_DIMENSION_RANGE.max
+    ) {
+      issues.push({
+        field,
+        code: "invalid_dimension",
+        message: `${field} must be an integer from ${RENDER_DIMENSION_RANGE.min} to ${RENDER_DIMENSION_RANGE.max} (got ${value})`,
+      });
+    }
+  }
+};
+
+const validateGridSettings = (gridSettings: GridSettings | undefined, issues: RenderValidationIssue[]) => {
+  if (gridSettings?.color !== undefined && !HEX_COLOR_PATTERN.test(gridSettings.color)) {
+    issues.push({
+      field: "gridSettings.color",
+      code: "invalid_grid_color",
+      message: `gridSettings.color must be a hex color such as #6f6f6f (got "${gridSettings.color}")`,
+    });
+  }
+};
+
+const validateEnumOption = (
+  field: string,
+  value: unknown,
+  allowed: readonly string[],
+  issues: RenderValidationIssue[]
+) => {
+  if (value !== undefined && !allowed.includes(value as string)) {
+    issues.push({
+      field,
+      code: "invalid_option",
+      message: `${field} must be one of ${allowed.join(", ")} (got "${String(value)}")`,
+    });
+  }
+};
+
+/**
+ * Check a render request against the documented API constraints before it
+ * is sent, so invalid input fails immediately instead of after a 400 round-trip.
+ *
+ * @example
+ * ```tsx
+ * const { valid, issues } = validateRenderRequest({
+ *   parts: { GPU: ['z7pyphm9k'] },
+ *   width: 1920,
+ *   winterMode: true,
+ *   springMode: true,
+ * });
+ * // valid === false
+ * // issues: incomplete_dimensions (height), conflicting_season_modes
+ * ```
+ */
+export const validateRenderRequest = (input: RenderValidationInput): RenderValidationResult => {
+  const issues: RenderValidationIssue[] = [];
+
+  if ("shareCode" in input) {
+    if (typeof input.shareCode !== "string" || input.shareCode.trim() === "") {
+      issues.push({ field: "shareCode", code: "missing_share_code", message: "shareCode is required" });
+    }
+  } else {
+    validateParts(input.parts, issues);
+  }
+
+  validateDimensions(input.width, input.height, issues);
+  validateEnumOption("format", input.format, ["video", "sprite"], issues);
+  validateEnumOption("profile", input.profile, ["cinematic", "flat", "fast"], issues);
+  validateEnumOption("frameQuality", input.frameQuality, ["standard", "high"], issues);
+
+  if (input.winterMode && input.springMode) {
+    issues.push({
+      field: "springMode",
+      code: "conflicting_season_modes",
+      message: "winterMode and springMode are mutually exclusive",
+    });
+  }
+
+  if (
+    input.cameraOffsetX !== undefined &&
+    !(input.cameraOffsetX >= CAMERA_OFFSET_X_RANGE.min && input.cameraOffsetX <= CAMERA_OFFSET_X_RANGE.max)
+  ) {
+    issues.push({
+      field: "cameraOffsetX",
+      code: "camera_offset_out_of_range",
+      message: `cameraOffsetX must be from ${CAMERA_OFFSET_X_RANGE.min} to ${CAMERA_OFFSET_X_RANGE.max} (got ${input.cameraOffsetX})`,
+    });
+  }
+
+  if (
+    input.cameraZoom !== undefined &&
+    !(input.cameraZoom >= CAMERA_ZOOM_RANGE.min && input.cameraZoom <= CAMERA_ZOOM_RANGE.max)
+  ) {
+    issues.push({
+      field: "cameraZoom",
+      code: "camera_zoom_out_of_range",
+      message: `cameraZoom must be from ${CAMERA_ZOOM_RANGE.min} to ${CAMERA_ZOOM_RANGE.max} (got ${input.cameraZoom})`,
+    });
+  }
+
+  validateGridSettings(input.gridSettings, issues);
+
+  return { valid: issues.length === 0, issues };
+};
+
+/**
+ * Throw a RenderValidationError when the request has issues
+ */
+export const assertValidRenderRequest = (input: RenderValidationInput): void => {
+  const { issues } = validateRenderRequest(input);
+  if (issues.length > 0) {
+    throw new RenderValidationError(issues);
+  }
+};